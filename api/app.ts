@@ -3,50 +3,131 @@ import express from 'express';
 import multer from 'multer';
 import fs from 'fs';
 import fsPromises from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import cors from 'cors';
-import { PDFQueueService } from './services/pdfQueueService';
+import { PDFQueueService, isTaskPriority } from './services/pdfQueueService';
 import { PdfProcessor } from './services/pdfProcessor';
 import { DatabaseService } from './services/databaseService';
 import { ChatService } from './services/chatService';
 import { IndicesDatabaseService } from './services/indicesDatabaseService';
 import agentService from './services/agent/agentService';
+import { AgentQueueDatabaseService } from './services/agent/agentQueueDatabaseService';
+import { ChatDatabaseService } from './services/chatDatabaseService';
+import { emptyUsage, addUsage, getPriceTable } from './services/usageService';
+import { findQuotePage } from './services/pageLayout';
+import { hashFile } from './services/contentHash';
+import { ImportService } from './services/importService';
+import { WorkspaceService } from './services/workspaceService';
+import { EmbeddingService } from './services/embeddingService';
+import { TextIndexService } from './services/textIndexService';
+import { TextQuery, parseTextQuery } from './services/textQuery';
+import { InboxWatcherService } from './services/inboxWatcherService';
+import { isValidArticleFilename, listResearchArticleFiles, parseResearchArticle, researchArticlePath } from './services/researchArticles';
+import { isAgentType, loadExistingQueues, restartAgentTask } from './services/agent/agentService';
+import { serverEventsHandler } from './services/eventService';
+import { isTransientError } from './services/retryPolicy';
+import { getRateLimiterStatus } from './services/ModelUtils';
+import { getStorage } from './services/storage/storage';
+import { getMigrationStatus } from './services/storage/migrationRunner';
+import {
+  DEFAULT_WORKSPACE_ID,
+  createWorkspace,
+  currentWorkspace,
+  deleteWorkspace,
+  getWorkspaceContext,
+  listWorkspaces,
+  migrateWorkspaces,
+  renameWorkspace,
+  runInWorkspace
+} from './services/workspaceContext';
+import {
+  SUPPORTED_EXTENSIONS,
+  extensionForMimeType,
+  isSupportedDocument,
+  resolveMimeType
+} from './services/extractors/extractorRegistry';
 
 const app = express();
 const port = process.env.PORT || 3000;
 app.use(cors());
 app.use(express.json());
 
+// Requests work in the workspace named by a /workspaces/:workspaceId/... prefix or the
+// X-Workspace header (EventSource cannot send headers), and in the default workspace otherwise
+app.use((req, res, next) => {
+  let workspaceId = req.header('X-Workspace');
+  const prefixed = req.url.match(/^\/workspaces\/([^/?]+)(\/.*)$/);
+  if (prefixed) {
+    workspaceId = decodeURIComponent(prefixed[1]);
+    req.url = prefixed[2];
+  }
+  if (!workspaceId) {
+    next();
+    return;
+  }
+
+  const context = getWorkspaceContext(workspaceId);
+  if (!context) {
+    res.status(404).json({ error: `Workspace ${workspaceId} not found` });
+    return;
+  }
+  runInWorkspace(context, next);
+});
+
 // Initialize services
 const databaseService = new DatabaseService();
 const pdfProcessor = new PdfProcessor();
 const queueService = new PDFQueueService(pdfProcessor, databaseService, 3);
-const chatService = new ChatService();
 const indicesDatabaseService = new IndicesDatabaseService();
+const agentQueueDatabaseService = new AgentQueueDatabaseService();
+const chatDatabaseService = new ChatDatabaseService();
 
-// Ensure uploads directory exists
-const uploadDir = path.join(__dirname, '../uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-// Multer setup for PDF uploads
+// Multer setup for document uploads (PDF, DOCX, HTML, Markdown, text)
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, uploadDir);
+    cb(null, currentWorkspace().directories.uploads);
   },
   filename: (req, file, cb) => {
-    cb(null, Date.now() + '-' + file.originalname);
+    // The extractor is picked from the extension later, so files without one get the canonical one
+    const mimeType = resolveMimeType(file.originalname, file.mimetype);
+    const extension = !isSupportedDocument(file.originalname) && mimeType ? extensionForMimeType(mimeType) || '' : '';
+    cb(null, Date.now() + '-' + file.originalname + extension);
   },
 });
 
+const importService = new ImportService(queueService);
+const workspaceService = new WorkspaceService(queueService);
+const embeddingService = new EmbeddingService();
+const textIndexService = new TextIndexService();
+const chatService = new ChatService(textIndexService);
+// The inbox feeds the default workspace
+const inboxWatcher = new InboxWatcherService(queueService, currentWorkspace().directories.uploads);
+
+// ZIP archives for bulk import are staged in the temp directory and deleted after the import
+const archiveUpload = multer({
+  dest: os.tmpdir(),
+  fileFilter: (req, file, cb) => {
+    const isZip = ['application/zip', 'application/x-zip-compressed'].includes(file.mimetype)
+      || file.originalname.toLowerCase().endsWith('.zip');
+    if (isZip) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only ZIP archives can be imported'));
+    }
+  },
+  limits: {
+    fileSize: parseInt(process.env.IMPORT_MAX_ARCHIVE_MB || '1024', 10) * 1024 * 1024
+  }
+});
+
 const upload = multer({
   storage,
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/pdf') {
+    if (resolveMimeType(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only PDF files are allowed!'));
+      cb(new Error(`Unsupported file type. Allowed: ${SUPPORTED_EXTENSIONS.join(', ')}`));
     }
   },
   limits: {
@@ -55,6 +136,7 @@ const upload = multer({
 });
 
 // Enhanced upload endpoint with queue integration
+// Files whose content was uploaded before return the existing task, unless ?force=true
 app.post('/upload', (req, res) => {
   // Create the multer upload middleware with better error handling
   const uploadMiddleware = upload.array('pdf', 10);
@@ -66,7 +148,7 @@ app.post('/upload', (req, res) => {
       
       if (err.code === 'LIMIT_UNEXPECTED_FILE') {
         return res.status(400).json({ 
-          error: 'Unexpected file field. Please ensure you are uploading PDF files only.',
+          error: 'Unexpected file field. Please upload documents in the "pdf" field.',
           details: `Unexpected field: ${err.field}`,
           code: err.code
         });
@@ -91,13 +173,21 @@ app.post('/upload', (req, res) => {
 
     // Proceed with normal upload processing
     if (!req.files || req.files.length === 0) {
-      res.status(400).json({ error: 'No files uploaded or files are not PDFs.' });
+      res.status(400).json({ error: 'No files uploaded or files are not supported documents.' });
       return;
     }
 
     try {
       const files = req.files as Express.Multer.File[];
+      const force = req.query.force === 'true';
+      const priority = req.query.priority ?? 'normal';
+      if (!isTaskPriority(priority)) {
+        files.forEach(file => fs.existsSync(file.path) && fs.unlinkSync(file.path));
+        res.status(400).json({ error: 'priority must be one of: urgent, normal, backfill' });
+        return;
+      }
       const results = [];
+      let duplicateCount = 0;
       
       console.log(`[UPLOAD] Starting upload of ${files.length} files`);
       
@@ -112,14 +202,32 @@ app.post('/upload', (req, res) => {
       
       // Add each file to queue in sorted order
       for (const file of sortedFiles) {
+        const contentHash = await hashFile(file.path);
+        const existingTask = force ? undefined : await queueService.findTaskByContentHash(contentHash);
+        
+        if (existingTask) {
+          console.log(`[UPLOAD] ${file.originalname} is a duplicate of ${existingTask.filename} (task ${existingTask.id}), skipping`);
+          fs.unlinkSync(file.path);
+          duplicateCount++;
+          results.push({
+            taskId: existingTask.id,
+            filename: existingTask.filename,
+            status: existingTask.status,
+            duplicate: true,
+            uploadedAs: file.originalname // So the client can upload just the duplicates again with force=true
+          });
+          continue;
+        }
+        
         console.log(`[UPLOAD] Adding file to queue: ${file.filename} (${file.path})`);
         try {
-          const taskId = await queueService.addTask(file.filename, file.path);
+          const taskId = await queueService.addTask(file.filename, file.path, contentHash, priority);
           console.log(`[UPLOAD] Successfully created task ${taskId} for ${file.filename}`);
           results.push({
             taskId,
             filename: file.filename,
-            status: 'pending'
+            status: 'pending',
+            priority
           });
         } catch (taskError) {
           console.error(`[UPLOAD] Failed to create task for ${file.filename}:`, taskError);
@@ -130,9 +238,13 @@ app.post('/upload', (req, res) => {
       const queueStats = await queueService.getQueueStats();
       console.log(`[UPLOAD] Upload completed successfully. Created ${results.length} tasks. Queue length: ${queueStats.queue.length}`);
       
+      const queuedCount = files.length - duplicateCount;
       res.json({
-        message: `${files.length} PDF(s) uploaded successfully and queued for processing in upload timestamp order!`,
+        message: duplicateCount > 0
+          ? `${queuedCount} document(s) queued for processing, ${duplicateCount} duplicate(s) of earlier uploads skipped (use force=true to upload anyway).`
+          : `${files.length} document(s) uploaded successfully and queued for processing in upload timestamp order!`,
         files: results,
+        duplicates: duplicateCount,
         queueLength: queueStats.queue.length
       });
     } catch (error) {
@@ -179,6 +291,8 @@ app.get('/status/:taskId', async (req, res) => {
       completedAt: task.completedAt,
       error: task.error,
       result: task.result,
+      priority: task.priority || 'normal',
+      stage: task.stage,
       queueLength: queueStats.queue.length,
       queueWorking: queueStats.queue.working
     });
@@ -188,6 +302,9 @@ app.get('/status/:taskId', async (req, res) => {
   }
 });
 
+// Push channel for task, agent task and index events (Server-Sent Events), replaces polling /status
+app.get('/events', serverEventsHandler);
+
 // Get all tasks status
 app.get('/status', async (req, res) => {
   try {
@@ -201,7 +318,11 @@ app.get('/status', async (req, res) => {
       error: task.error,
       result: task.result,
       hasResult: !!task.result,
-      TimeStamp: task.TimeStamp
+      TimeStamp: task.TimeStamp,
+      attempts: task.attempts,
+      nextRetryAt: task.nextRetryAt,
+      priority: task.priority || 'normal',
+      stage: task.stage
     }));
     
     // Sort by TimeStamp (ascending)
@@ -217,12 +338,14 @@ app.get('/status', async (req, res) => {
     res.json({
       tasks: allTasks,
       queueStats: queueStats.queue,
+      stageStats: queueStats.stages,
       taskStats: {
         total: allTasks.length,
         pending: allTasks.filter((t: any) => t.status === 'pending').length,
         processing: allTasks.filter((t: any) => t.status === 'processing').length,
         completed: allTasks.filter((t: any) => t.status === 'completed').length,
-        failed: allTasks.filter((t: any) => t.status === 'failed').length
+        failed: allTasks.filter((t: any) => t.status === 'failed').length,
+        cancelled: allTasks.filter((t: any) => t.status === 'cancelled').length
       }
     });
   } catch (error) {
@@ -269,6 +392,52 @@ app.delete('/tasks/:taskId', async (req, res) => {
   }
 });
 
+// Cancel a pending or processing task; in-flight model calls are aborted
+app.post('/tasks/:taskId/cancel', async (req, res) => {
+  try {
+    const taskId = req.params.taskId;
+    const task = await queueService.getTask(taskId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    
+    const cancelled = await queueService.cancelTask(taskId);
+    if (!cancelled) {
+      return res.status(400).json({ error: `Task is already ${task.status}` });
+    }
+    
+    res.json({ message: 'Task cancelled', taskId });
+  } catch (error) {
+    console.error('Cancel task error:', error);
+    res.status(500).json({ error: 'Failed to cancel task' });
+  }
+});
+
+// Change the priority of a pending or processing task; queued tasks are moved up or down right away
+app.post('/tasks/:taskId/priority', async (req, res) => {
+  try {
+    const { priority } = req.body;
+    if (!isTaskPriority(priority)) {
+      return res.status(400).json({ error: 'priority must be one of: urgent, normal, backfill' });
+    }
+    
+    const task = await queueService.getTask(req.params.taskId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    
+    const updated = await queueService.setTaskPriority(req.params.taskId, priority);
+    if (!updated) {
+      return res.status(400).json({ error: `Task is already ${task.status}` });
+    }
+    
+    res.json({ message: `Task priority set to ${priority}`, taskId: req.params.taskId, priority });
+  } catch (error) {
+    console.error('Set task priority error:', error);
+    res.status(500).json({ error: 'Failed to set task priority' });
+  }
+});
+
 app.delete('/tasks/completed', async (req, res) => {
   try {
     const clearedCount = await queueService.clearCompletedTasks();
@@ -334,17 +503,120 @@ app.post('/tasks/reorder', async (req, res) => {
   }
 });
 
-// Serve individual PDF files
+// Bulk import: multipart ZIP in the "archive" field, or JSON { "directory": "/server/path" }.
+// Runs in the background; poll GET /import/:importId for per-file progress. ?force=true keeps duplicates.
+app.post('/import', (req, res) => {
+  archiveUpload.single('archive')(req, res, async (err) => {
+    if (err) {
+      console.error('[IMPORT] Archive upload error:', err);
+      res.status(400).json({
+        error: err.code === 'LIMIT_FILE_SIZE' ? 'Archive too large (IMPORT_MAX_ARCHIVE_MB)' : err.message,
+        code: err.code || 'UNKNOWN_ERROR'
+      });
+      return;
+    }
+
+    try {
+      const force = req.query.force === 'true' || req.body?.force === true || req.body?.force === 'true';
+      const priority = req.query.priority ?? req.body?.priority ?? 'backfill';
+      if (!isTaskPriority(priority)) {
+        if (req.file) fs.unlinkSync(req.file.path);
+        res.status(400).json({ error: 'priority must be one of: urgent, normal, backfill' });
+        return;
+      }
+      
+      if (req.file) {
+        const job = importService.startZipImport(req.file.path, req.file.originalname, { force, priority });
+        res.status(202).json(job);
+        return;
+      }
+      
+      const directory = req.body?.directory;
+      if (typeof directory !== 'string' || !directory.trim()) {
+        res.status(400).json({ error: 'Provide a ZIP archive in the "archive" field or a "directory" path' });
+        return;
+      }
+      
+      try {
+        const job = await importService.startDirectoryImport(directory, { force, priority });
+        res.status(202).json(job);
+      } catch (directoryError) {
+        res.status(400).json({ error: directoryError instanceof Error ? directoryError.message : 'Invalid directory' });
+      }
+    } catch (error) {
+      console.error('[IMPORT] Import error:', error);
+      res.status(500).json({ error: 'Failed to start import' });
+    }
+  });
+});
+
+app.get('/import', (req, res) => {
+  res.json({ imports: importService.listJobs() });
+});
+
+app.get('/import/:importId', (req, res) => {
+  const job = importService.getJob(req.params.importId);
+  if (!job) {
+    res.status(404).json({ error: 'Import not found' });
+    return;
+  }
+  res.json(job);
+});
+
+// Inbox watcher: status, recently ingested files and the agent queries re-run after new documents
+app.get('/inbox', async (req, res) => {
+  try {
+    res.json(await inboxWatcher.getStatus());
+  } catch (error) {
+    console.error('[INBOX] Status error:', error);
+    res.status(500).json({ error: 'Failed to get inbox status' });
+  }
+});
+
+app.post('/inbox/queries', async (req, res) => {
+  const { agentType, userQuery } = req.body || {};
+  if (!isAgentType(agentType) || typeof userQuery !== 'string' || !userQuery.trim()) {
+    return res.status(400).json({ error: 'Provide agentType ("indices" or "change_statement") and userQuery' });
+  }
+
+  try {
+    const query = await inboxWatcher.addAgentQuery(agentType, userQuery.trim());
+    res.status(201).json(query);
+  } catch (error) {
+    console.error('[INBOX] Error saving agent query:', error);
+    res.status(500).json({ error: 'Failed to save agent query' });
+  }
+});
+
+app.delete('/inbox/queries/:queryId', async (req, res) => {
+  try {
+    const removed = await inboxWatcher.removeAgentQuery(req.params.queryId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Agent query not found' });
+    }
+    res.json({ message: 'Agent query removed', queryId: req.params.queryId });
+  } catch (error) {
+    console.error('[INBOX] Error removing agent query:', error);
+    res.status(500).json({ error: 'Failed to remove agent query' });
+  }
+});
+
+// Serve individual uploaded documents
 app.get('/files/:filename', (req, res) => {
   try {
     const filename = req.params.filename;
-    const filePath = path.join(__dirname, '../uploads', filename);
+    const filePath = path.join(currentWorkspace().directories.uploads, filename);
     
     if (!fs.existsSync(filePath)) {
       res.status(404).json({ error: 'File not found' });
       return;
     }
     
+    // Uploaded web pages must not run scripts on the API origin
+    if (resolveMimeType(filename) === 'text/html') {
+      res.setHeader('Content-Security-Policy', 'sandbox');
+    }
+    
     res.sendFile(filePath);
   } catch (error) {
     console.error('Error serving file:', error);
@@ -352,31 +624,76 @@ app.get('/files/:filename', (req, res) => {
   }
 });
 
+// Extracted text of a processed document, used by the viewer for formats it cannot render
+app.get('/files/:filename/text', async (req, res) => {
+  try {
+    const filename = req.params.filename;
+    const allTasks = await queueService.getAllTasks();
+    const task = allTasks.find(t => t.filename === filename && t.status === 'completed' && t.result?.extractedTextPath);
+    
+    if (!task || !fs.existsSync(task.result!.extractedTextPath)) {
+      res.status(404).json({ error: 'Extracted text not found' });
+      return;
+    }
+    
+    const text = await fsPromises.readFile(task.result!.extractedTextPath, 'utf8');
+    res.json({
+      filename,
+      mimeType: resolveMimeType(filename),
+      text
+    });
+  } catch (error) {
+    console.error('Error serving extracted text:', error);
+    res.status(500).json({ error: 'Failed to get extracted text' });
+  }
+});
+
 // File management endpoints
 app.get('/files', async (req, res) => {
   try {
-    const uploadDir = path.join(__dirname, '../uploads');
+    const uploadDir = currentWorkspace().directories.uploads;
     if (!fs.existsSync(uploadDir)) {
       res.json({ files: [], total: 0 });
       return;
     }
 
-    const files = fs.readdirSync(uploadDir)
-      .filter(file => file.endsWith('.pdf'))
-      .map(filename => {
-        const filePath = path.join(uploadDir, filename);
-        const stats = fs.statSync(filePath);
-        return {
-          filename,
-          size: stats.size,
-          uploadedAt: stats.birthtime.toISOString(),
-          modifiedAt: stats.mtime.toISOString()
-        };
-      });
+    // Group files with identical content (forced re-uploads) by the hash stored on their task
+    await queueService.backfillContentHashes();
+    const allTasks = await queueService.getAllTasks();
+    const hashByFilename = new Map(allTasks.filter(task => task.contentHash).map(task => [task.filename, task.contentHash!]));
+    const filenamesByHash = new Map<string, string[]>();
+
+    const filenames = fs.readdirSync(uploadDir).filter(file => isSupportedDocument(file));
+    for (const filename of filenames) {
+      const contentHash = hashByFilename.get(filename);
+      if (contentHash) {
+        filenamesByHash.set(contentHash, [...(filenamesByHash.get(contentHash) || []), filename]);
+      }
+    }
+
+    const files = filenames.map(filename => {
+      const filePath = path.join(uploadDir, filename);
+      const stats = fs.statSync(filePath);
+      const contentHash = hashByFilename.get(filename);
+      return {
+        filename,
+        mimeType: resolveMimeType(filename),
+        size: stats.size,
+        uploadedAt: stats.birthtime.toISOString(),
+        modifiedAt: stats.mtime.toISOString(),
+        contentHash,
+        duplicates: contentHash ? filenamesByHash.get(contentHash)!.filter(other => other !== filename) : []
+      };
+    });
+
+    const duplicateGroups = Array.from(filenamesByHash.entries())
+      .filter(([, group]) => group.length > 1)
+      .map(([contentHash, group]) => ({ contentHash, filenames: group }));
 
     res.json({
       files,
-      total: files.length
+      total: files.length,
+      duplicateGroups
     });
   } catch (error) {
     console.error('Get files error:', error);
@@ -387,7 +704,7 @@ app.get('/files', async (req, res) => {
 app.delete('/files/:filename', async (req, res) => {
   try {
     const filename = req.params.filename;
-    const filePath = path.join(__dirname, '../uploads', filename);
+    const filePath = path.join(currentWorkspace().directories.uploads, filename);
     
     if (!fs.existsSync(filePath)) {
       res.status(404).json({ error: 'File not found' });
@@ -398,7 +715,7 @@ app.delete('/files/:filename', async (req, res) => {
     fs.unlinkSync(filePath);
     
     // Also remove associated extracted text file if it exists
-    const extractedTextPath = path.join(__dirname, '../extracted-texts', `${filename}_extracted.md`);
+    const extractedTextPath = path.join(currentWorkspace().directories['extracted-texts'], `${filename}_extracted.md`);
     if (fs.existsSync(extractedTextPath)) {
       fs.unlinkSync(extractedTextPath);
     }
@@ -419,11 +736,10 @@ app.delete('/files/:filename', async (req, res) => {
 
 app.delete('/files', async (req, res) => {
   try {
-    const uploadDir = path.join(__dirname, '../uploads');
-    const extractedTextsDir = path.join(__dirname, '../extracted-texts');
+    const { uploads: uploadDir, 'extracted-texts': extractedTextsDir } = currentWorkspace().directories;
     
     if (fs.existsSync(uploadDir)) {
-      const files = fs.readdirSync(uploadDir).filter(file => file.endsWith('.pdf'));
+      const files = fs.readdirSync(uploadDir).filter(file => isSupportedDocument(file));
       files.forEach(file => {
         const filePath = path.join(uploadDir, file);
         fs.unlinkSync(filePath);
@@ -472,6 +788,16 @@ app.get('/database/statistics', async (req, res) => {
   }
 });
 
+// Schema version of every store and the migrations applied to it
+app.get('/database/migrations', (req, res) => {
+  try {
+    res.json({ stores: getMigrationStatus(getStorage()) });
+  } catch (error) {
+    console.error('Database migrations error:', error);
+    res.status(500).json({ error: 'Failed to get database migrations' });
+  }
+});
+
 app.post('/database/backup', async (req, res) => {
   try {
     const backupPath = await databaseService.backup();
@@ -495,6 +821,142 @@ app.post('/database/reset', async (req, res) => {
   }
 });
 
+// Workspaces keep separate documents, indices, agent queues, chat sessions and research articles
+app.get('/workspaces', (req, res) => {
+  try {
+    res.json({ workspaces: listWorkspaces(), defaultWorkspaceId: DEFAULT_WORKSPACE_ID });
+  } catch (error) {
+    console.error('[WORKSPACES] List error:', error);
+    res.status(500).json({ error: 'Failed to list workspaces' });
+  }
+});
+
+app.post('/workspaces', async (req, res) => {
+  const { name, id } = req.body as { name?: string; id?: string };
+  if (typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'name is required' });
+    return;
+  }
+
+  try {
+    const context = await createWorkspace(name.trim(), id);
+    res.status(201).json(context.workspace);
+  } catch (error) {
+    console.error('[WORKSPACES] Create error:', error);
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to create workspace' });
+  }
+});
+
+app.patch('/workspaces/:workspaceId', (req, res) => {
+  const { name } = req.body as { name?: string };
+  if (typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({ error: 'name is required' });
+    return;
+  }
+
+  try {
+    const workspace = renameWorkspace(req.params.workspaceId, name.trim());
+    if (!workspace) {
+      res.status(404).json({ error: 'Workspace not found or not renamable' });
+      return;
+    }
+    res.json(workspace);
+  } catch (error) {
+    console.error('[WORKSPACES] Rename error:', error);
+    res.status(500).json({ error: 'Failed to rename workspace' });
+  }
+});
+
+// Deletes the workspace's database and files; the default workspace cannot be deleted
+app.delete('/workspaces/:workspaceId', async (req, res) => {
+  try {
+    const workspaceId = req.params.workspaceId;
+    const context = workspaceId === DEFAULT_WORKSPACE_ID ? undefined : getWorkspaceContext(workspaceId);
+    if (!context) {
+      res.status(404).json({ error: 'Workspace not found or not deletable' });
+      return;
+    }
+
+    const blocker = await runInWorkspace(context, () => workspaceService.getActiveWork());
+    if (blocker) {
+      res.status(409).json({ error: blocker });
+      return;
+    }
+
+    await deleteWorkspace(workspaceId);
+    res.json({ message: 'Workspace deleted successfully' });
+  } catch (error) {
+    console.error('[WORKSPACES] Delete error:', error);
+    res.status(500).json({ error: 'Failed to delete workspace' });
+  }
+});
+
+// Whole workspace as one ZIP bundle: manifest.json, the database and the uploaded documents,
+// extracted texts and research articles
+app.get('/workspace/export', async (req, res) => {
+  try {
+    const { stream, filename, removeSnapshot } = await workspaceService.exportBundle();
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    stream.on('error', (error) => {
+      console.error('[WORKSPACE] Export stream error:', error);
+      res.destroy(error);
+    });
+    // An aborted download never reads the stream to its end, so the snapshot is removed here too
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        stream.unpipe(res);
+        stream.destroy();
+      }
+      removeSnapshot();
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('[WORKSPACE] Export error:', error);
+    res.status(500).json({ error: 'Failed to export workspace' });
+  }
+});
+
+// Replaces the local workspace with a bundle from GET /workspace/export, in the "bundle" field.
+// Stored paths are rewritten to this server's directories; the database is backed up first.
+app.post('/workspace/import', (req, res) => {
+  archiveUpload.single('bundle')(req, res, async (err) => {
+    if (err) {
+      console.error('[WORKSPACE] Bundle upload error:', err);
+      res.status(400).json({
+        error: err.code === 'LIMIT_FILE_SIZE' ? 'Bundle too large (IMPORT_MAX_ARCHIVE_MB)' : err.message,
+        code: err.code || 'UNKNOWN_ERROR'
+      });
+      return;
+    }
+    if (!req.file) {
+      res.status(400).json({ error: 'Provide a workspace bundle in the "bundle" field' });
+      return;
+    }
+
+    const bundlePath = req.file.path;
+    try {
+      const blocker = await workspaceService.getActiveWork();
+      if (blocker) {
+        res.status(409).json({ error: blocker });
+        return;
+      }
+
+      const result = await workspaceService.importBundle(bundlePath);
+      await loadExistingQueues();
+      // Bundles from before the search indexes, or embedded with another model
+      await textIndexService.backfill();
+      await embeddingService.backfill();
+      res.json({ message: 'Workspace imported successfully', ...result });
+    } catch (error) {
+      console.error('[WORKSPACE] Import error:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to import workspace' });
+    } finally {
+      fs.unlink(bundlePath, () => undefined);
+    }
+  });
+});
+
 // Task action endpoints (only for completed tasks)
 app.post('/tasks/:taskId/change-timestamp', async (req, res) => {
   try {
@@ -565,8 +1027,8 @@ app.post('/tasks/:taskId/regenerate', async (req, res) => {
       return;
     }
     
-    if (task.status !== 'completed') {
-      res.status(400).json({ error: 'Can only regenerate summary for completed tasks' });
+    if (task.status !== 'completed' && task.status !== 'cancelled') {
+      res.status(400).json({ error: 'Can only regenerate completed or cancelled tasks' });
       return;
     }
     
@@ -588,24 +1050,212 @@ app.post('/tasks/:taskId/regenerate', async (req, res) => {
   }
 });
 
+// Dead letters: tasks that failed for good, after retries for transient errors ran out.
+// ?transient=true lists only those that failed on transient errors (e.g. during a provider outage).
+app.get('/dead-letter', async (req, res) => {
+  try {
+    const transientOnly = req.query.transient === 'true';
+    const [allTasks, queues] = await Promise.all([
+      queueService.getAllTasks(),
+      agentQueueDatabaseService.getAllQueues()
+    ]);
+
+    const tasks = allTasks
+      .filter(task => task.status === 'failed')
+      .map(task => ({
+        id: task.id,
+        filename: task.filename,
+        error: task.error,
+        transient: isTransientError(task.error || ''),
+        attempts: task.attempts || 0,
+        attemptHistory: task.attemptHistory || [],
+        completedAt: task.completedAt
+      }))
+      .filter(task => !transientOnly || task.transient);
+
+    const agentTasks = queues
+      .flatMap(queue => Object.values(queue.tasks)
+        .filter(task => task.status === 'failed')
+        .map(task => ({
+          queueKey: queue.id,
+          queueName: queue.name,
+          taskId: task.id,
+          type: task.type,
+          error: task.error,
+          transient: isTransientError(task.error || ''),
+          attempts: task.attempts || 0,
+          attemptHistory: task.attemptHistory || [],
+          updatedAt: task.updatedAt
+        })))
+      .filter(task => !transientOnly || task.transient);
+
+    res.json({ tasks, agentTasks });
+  } catch (error) {
+    console.error('Dead letter listing error:', error);
+    res.status(500).json({ error: 'Failed to list failed tasks' });
+  }
+});
+
+// Bulk retry of failed tasks: { taskIds?: string[], agentTasks?: { queueKey, taskId }[], transientOnly?: boolean },
+// all failed document and agent tasks by default. An agent queue is restarted from its first failed task to retry,
+// the same as POST /agent/queue/:queueKey/restart/:taskId, which re-runs the tasks after it too. Queues that are
+// still running are skipped.
+app.post('/dead-letter/retry', async (req, res) => {
+  try {
+    const { taskIds, agentTasks, transientOnly } = req.body || {};
+    if (taskIds !== undefined && !Array.isArray(taskIds)) {
+      return res.status(400).json({ error: 'taskIds must be an array' });
+    }
+    if (agentTasks !== undefined && (!Array.isArray(agentTasks) ||
+      agentTasks.some((task: any) => typeof task?.queueKey !== 'string' || typeof task?.taskId !== 'string'))) {
+      return res.status(400).json({ error: 'agentTasks must be an array of { queueKey, taskId }' });
+    }
+    // Only listing some tasks retries only those; listing none of a kind retries all of it
+    const selected = taskIds !== undefined || agentTasks !== undefined;
+
+    const failedTasks = (await queueService.getAllTasks()).filter(task =>
+      task.status === 'failed' &&
+      (!selected || taskIds?.includes(task.id)) &&
+      (!transientOnly || isTransientError(task.error || ''))
+    );
+
+    const retried: string[] = [];
+    for (const task of failedTasks) {
+      if (await queueService.regenerateTask(task.id)) {
+        retried.push(task.id);
+      }
+    }
+
+    const retriedAgentTasks: { queueKey: string; taskId: string }[] = [];
+    for (const queue of await agentQueueDatabaseService.getAllQueues()) {
+      const first = (await agentQueueDatabaseService.getQueueTasks(queue.id)).find(task =>
+        task.status === 'failed' &&
+        (!selected || agentTasks?.some((t: { queueKey: string; taskId: string }) => t.queueKey === queue.id && t.taskId === task.id)) &&
+        (!transientOnly || isTransientError(task.error || ''))
+      );
+      if (!first) continue;
+      const failure = await restartAgentTask(queue.id, first.id);
+      if (failure) {
+        console.warn(`[AGENT SERVICE] Cannot retry task ${first.id} of queue ${queue.id}: ${failure.error}`);
+      } else {
+        retriedAgentTasks.push({ queueKey: queue.id, taskId: first.id });
+      }
+    }
+
+    console.log(`[QUEUE] Retrying ${retried.length} failed tasks and ${retriedAgentTasks.length} agent queues`);
+    res.json({
+      message: `Retrying ${retried.length} failed tasks and ${retriedAgentTasks.length} agent queues`,
+      retried,
+      retriedAgentTasks
+    });
+  } catch (error) {
+    console.error('Dead letter retry error:', error);
+    res.status(500).json({ error: 'Failed to retry tasks' });
+  }
+});
+
+// Find the page of a document a quote was taken from, using the page map of its extracted text
+app.get('/tasks/:taskId/locate', async (req, res) => {
+  try {
+    const taskId = req.params.taskId;
+    const quote = typeof req.query.quote === 'string' ? req.query.quote : '';
+    
+    if (!quote.trim()) {
+      res.status(400).json({ error: 'Quote is required' });
+      return;
+    }
+    
+    const task = await queueService.getTask(taskId);
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+    
+    if (!task.result?.pageMap || !task.result.extractedTextPath) {
+      res.status(400).json({ error: 'Task has no page map, regenerate it to enable quote lookup' });
+      return;
+    }
+    
+    const markdown = await fsPromises.readFile(task.result.extractedTextPath, 'utf8');
+    const page = findQuotePage(markdown, task.result.pageMap, quote);
+    
+    res.json({
+      taskId,
+      filename: task.filename,
+      page,
+      found: page !== null
+    });
+  } catch (error) {
+    console.error('Locate quote error:', error);
+    res.status(500).json({ error: 'Failed to locate quote' });
+  }
+});
+
+// Keyword search over the extracted texts: ?q=... with "phrases", OR, NOT/-word and parentheses,
+// &limit=20 documents with up to &hits=5 hits each
+app.get('/search/text', async (req, res) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q : '';
+    let query: TextQuery;
+    try {
+      query = parseTextQuery(q);
+    } catch (parseError) {
+      res.status(400).json({ error: parseError instanceof Error ? parseError.message : 'Invalid query' });
+      return;
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20'), 10) || 20, 1), 100);
+    const hitsPerDocument = Math.min(Math.max(parseInt(String(req.query.hits || '5'), 10) || 5, 1), 100);
+
+    const { total, results } = await textIndexService.search(query, { limit, hitsPerDocument });
+    res.json({ query: q, total, results, index: textIndexService.getStatus() });
+  } catch (error) {
+    console.error('Text search error:', error);
+    res.status(500).json({ error: 'Failed to search documents' });
+  }
+});
+
+// Semantic search over the extracted texts: ?q=...&limit=10, optionally &taskId=... (repeatable)
+app.get('/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      res.status(400).json({ error: 'q is required' });
+      return;
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '10'), 10) || 10, 1), 100);
+    const taskIds = req.query.taskId === undefined ? undefined : ([] as unknown[]).concat(req.query.taskId).map(String);
 
-// Chat endpoint
+    const results = await embeddingService.search(query, { limit, taskIds });
+    res.json({ query, results, index: embeddingService.getStatus() });
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Failed to search documents', message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+
+// Chat endpoint; answers about documents mentioned with @filename or @all come with citations
 app.post('/chat', async (req, res) => {
   try {
-    const { message, sessionId } = req.body as { 
+    const { message, sessionId, mentions } = req.body as { 
       message: string; 
-      sessionId?: string 
+      sessionId?: string;
+      mentions?: string[]; // Filenames of mentioned documents, or "@all"
     };
     
     if (!message || typeof message !== 'string') {
       res.status(400).json({ error: 'message is required and must be a string' });
       return;
     }
+    if (mentions !== undefined && (!Array.isArray(mentions) || mentions.some(mention => typeof mention !== 'string'))) {
+      res.status(400).json({ error: 'mentions must be an array of strings' });
+      return;
+    }
     
     // Use provided sessionId or create a new one
     const actualSessionId = sessionId || await chatService.createSession();
     
-    const response = await chatService.processMessage(message, actualSessionId);
+    const response = await chatService.processMessage(message, actualSessionId, mentions);
     
     res.json(response);
   } catch (error) {
@@ -614,6 +1264,62 @@ app.post('/chat', async (req, res) => {
   }
 });
 
+// Chat endpoint streaming the answer as server-sent events: start, token and tool (repeated), then done or error
+app.post('/chat/stream', async (req, res) => {
+  const { message, sessionId, mentions } = req.body as {
+    message: string;
+    sessionId?: string;
+    mentions?: string[]; // Filenames of mentioned documents, or "@all"
+  };
+
+  if (!message || typeof message !== 'string') {
+    res.status(400).json({ error: 'message is required and must be a string' });
+    return;
+  }
+  if (mentions !== undefined && (!Array.isArray(mentions) || mentions.some(mention => typeof mention !== 'string'))) {
+    res.status(400).json({ error: 'mentions must be an array of strings' });
+    return;
+  }
+
+  // Closing the connection stops the model; the answer received so far is still saved
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abort.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+  });
+  const send = (type: string, data: unknown) => {
+    if (!abort.signal.aborted) res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    // Use provided sessionId or create a new one
+    const actualSessionId = sessionId || await chatService.createSession();
+    send('start', { sessionId: actualSessionId });
+
+    const reply = await chatService.streamMessage(
+      message,
+      actualSessionId,
+      mentions || [],
+      {
+        onText: text => send('token', { text }),
+        onToolCall: call => send('tool', call)
+      },
+      abort.signal
+    );
+    send('done', reply);
+  } catch (error) {
+    console.error('Chat stream error:', error);
+    send('error', { error: 'Failed to process chat request' });
+  }
+  res.end();
+});
+
 // Create a new chat session
 app.post('/chat/sessions', async (req, res) => {
   try {
@@ -639,6 +1345,126 @@ app.get('/chat/sessions/:sessionId/messages', async (req, res) => {
   }
 });
 
+// Usage endpoints - token usage and cost per PDF task, agent run and chat session
+app.get('/usage', async (req, res) => {
+  try {
+    const [pdfTasks, queues, sessions] = await Promise.all([
+      queueService.getAllTasks(),
+      agentQueueDatabaseService.getAllQueues(),
+      chatDatabaseService.getAllSessions()
+    ]);
+    
+    const pdf = pdfTasks.reduce((totals, t) => t.usage ? addUsage(totals, t.usage) : totals, emptyUsage());
+    const agents = queues.reduce((totals, q) => q.usage ? addUsage(totals, q.usage) : totals, emptyUsage());
+    const chat = sessions.reduce((totals, s) => s.usage ? addUsage(totals, s.usage) : totals, emptyUsage());
+    
+    res.json({
+      currency: 'USD',
+      total: addUsage(addUsage(pdf, agents), chat),
+      pdf,
+      agents,
+      chat
+    });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ error: 'Failed to get usage' });
+  }
+});
+
+// Spend per agent run, newest first
+app.get('/usage/agents', async (req, res) => {
+  try {
+    const queues = await agentQueueDatabaseService.getAllQueues();
+    const runs = queues
+      .map(q => ({
+        queueKey: q.id,
+        name: q.name,
+        type: q.type,
+        status: q.status,
+        createdAt: q.createdAt,
+        updatedAt: q.updatedAt,
+        taskCount: Object.keys(q.tasks).length,
+        usage: q.usage || emptyUsage()
+      }))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    
+    res.json({ currency: 'USD', runs });
+  } catch (error) {
+    console.error('Get agent usage error:', error);
+    res.status(500).json({ error: 'Failed to get agent usage' });
+  }
+});
+
+// Spend per task of one agent run
+app.get('/usage/agents/:queueKey', async (req, res) => {
+  try {
+    const queue = await agentQueueDatabaseService.getQueue(req.params.queueKey);
+    if (!queue) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+    
+    res.json({
+      currency: 'USD',
+      queueKey: queue.id,
+      name: queue.name,
+      type: queue.type,
+      status: queue.status,
+      usage: queue.usage || emptyUsage(),
+      tasks: Object.values(queue.tasks).map(t => ({
+        id: t.id,
+        type: t.type,
+        status: t.status,
+        usage: t.usage || emptyUsage()
+      }))
+    });
+  } catch (error) {
+    console.error('Get agent run usage error:', error);
+    res.status(500).json({ error: 'Failed to get agent run usage' });
+  }
+});
+
+app.get('/usage/pdf', async (req, res) => {
+  try {
+    const tasks = await queueService.getAllTasks();
+    res.json({
+      currency: 'USD',
+      tasks: tasks.map(t => ({
+        id: t.id,
+        filename: t.filename,
+        status: t.status,
+        usage: t.usage || emptyUsage()
+      }))
+    });
+  } catch (error) {
+    console.error('Get PDF usage error:', error);
+    res.status(500).json({ error: 'Failed to get PDF usage' });
+  }
+});
+
+app.get('/usage/chat', async (req, res) => {
+  try {
+    const sessions = await chatDatabaseService.getAllSessions();
+    res.json({
+      currency: 'USD',
+      sessions: sessions.map(s => ({
+        id: s.id,
+        name: s.name,
+        messageCount: s.messageCount,
+        lastActivity: s.lastActivity,
+        usage: s.usage || emptyUsage()
+      }))
+    });
+  } catch (error) {
+    console.error('Get chat usage error:', error);
+    res.status(500).json({ error: 'Failed to get chat usage' });
+  }
+});
+
+// Price table used for cost estimates (USD per 1M tokens)
+app.get('/usage/pricing', (req, res) => {
+  res.json({ currency: 'USD', unit: 'per 1M tokens', models: getPriceTable() });
+});
+
 // Diagnostic endpoint to help debug missing tasks
 app.get('/debug/state', async (req, res) => {
   try {
@@ -647,12 +1473,12 @@ app.get('/debug/state', async (req, res) => {
     const databaseInfo = await queueService.getDatabaseService().getDatabaseInfo();
     
     // Check file system state
-    const uploadDir = path.join(__dirname, '../uploads');
+    const uploadDir = currentWorkspace().directories.uploads;
     const uploadFiles = fs.existsSync(uploadDir) 
-      ? fs.readdirSync(uploadDir).filter(f => f.endsWith('.pdf'))
+      ? fs.readdirSync(uploadDir).filter(f => isSupportedDocument(f))
       : [];
     
-    const extractedTextsDir = path.join(__dirname, 'extracted-texts');
+    const extractedTextsDir = currentWorkspace().directories['extracted-texts'];
     const extractedFiles = fs.existsSync(extractedTextsDir)
       ? fs.readdirSync(extractedTextsDir).filter(f => f.endsWith('.md'))
       : [];
@@ -667,8 +1493,10 @@ app.get('/debug/state', async (req, res) => {
       queue: {
         length: queueStats.queue.length,
         working: queueStats.queue.working,
-        taskOrder: queueService.getTaskOrder ? queueService.getTaskOrder() : 'Not available'
+        taskOrder: queueService.getTaskOrder ? queueService.getTaskOrder() : 'Not available',
+        stages: queueStats.stages
       },
+      modelRateLimiter: getRateLimiterStatus(),
       filesystem: {
         uploadFiles: uploadFiles.map(f => ({
           filename: f,
@@ -773,68 +1601,24 @@ app.use('/agent', agentService);
 // Research Articles API endpoints
 app.get('/api/research-articles', async (req, res) => {
   try {
-    const path = require('path');
-    const fs = require('fs/promises');
-    
-    const articlesDir = path.join(__dirname, 'research-articles');
-    
-    // Check if directory exists
-    try {
-      await fs.access(articlesDir);
-    } catch {
-      return res.json({ articles: [] });
-    }
-    
-    // Read directory contents
-    const files = await fs.readdir(articlesDir);
-    const markdownFiles = files.filter((file: string) => file.endsWith('.md'));
+    const markdownFiles = await listResearchArticleFiles();
     
     // Get file metadata
     const articles = await Promise.all(
       markdownFiles.map(async (filename: string) => {
         try {
-          const filepath = path.join(articlesDir, filename);
-          const stats = await fs.stat(filepath);
-          const content = await fs.readFile(filepath, 'utf-8');
-          
-          // Parse frontmatter
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-          let metadata = {};
-          let articleContent = content;
-          
-          if (frontmatterMatch) {
-            try {
-              const frontmatter = frontmatterMatch[1];
-              const lines = frontmatter.split('\n');
-              metadata = lines.reduce((acc: any, line: string) => {
-                const [key, ...valueParts] = line.split(':');
-                if (key && valueParts.length > 0) {
-                  const value = valueParts.join(':').trim().replace(/^["']|["']$/g, '');
-                  acc[key.trim()] = value;
-                }
-                return acc;
-              }, {});
-              
-                        // Remove frontmatter from content
-          articleContent = content.replace(/^---\n[\s\S]*?\n---\n/, '');
-          
-          // Strip markdown code block wrapper if it exists
-          if (articleContent.startsWith('```markdown\n') && articleContent.endsWith('\n```')) {
-            articleContent = articleContent.slice(12, -4); // Remove ```markdown\n from start and \n``` from end
-          }
-        } catch (parseError) {
-          console.warn(`Failed to parse frontmatter for ${filename}:`, parseError);
-        }
-      }
+          const filepath = researchArticlePath(filename);
+          const stats = await fsPromises.stat(filepath);
+          const { metadata, content: articleContent } = parseResearchArticle(filename, await fsPromises.readFile(filepath, 'utf-8'));
           
           return {
             filename,
-            filepath: path.relative(__dirname, filepath),
-            title: (metadata as any).title || filename.replace('.md', ''),
-            query: (metadata as any).query || (metadata as any).title || filename.replace('.md', ''),
-            intent: (metadata as any).intent || '',
-            generated: (metadata as any).generated || stats.mtime.toISOString(),
-            documentsAnalyzed: parseInt((metadata as any).documents_analyzed) || 0,
+            filepath: path.relative(process.cwd(), filepath),
+            title: metadata.title || filename.replace('.md', ''),
+            query: metadata.query || metadata.title || filename.replace('.md', ''),
+            intent: metadata.intent || '',
+            generated: metadata.generated || stats.mtime.toISOString(),
+            documentsAnalyzed: parseInt(metadata.documents_analyzed) || 0,
             size: stats.size,
             lastModified: stats.mtime.toISOString(),
             preview: articleContent.substring(0, 200).replace(/[#*]/g, '').trim()
@@ -861,49 +1645,15 @@ app.get('/api/research-articles', async (req, res) => {
 app.get('/api/research-articles/:filename', async (req, res) => {
   try {
     const { filename } = req.params;
-    const path = require('path');
-    const fs = require('fs/promises');
     
     // Validate filename to prevent directory traversal
-    if (filename.includes('..') || filename.includes('/') || !filename.endsWith('.md')) {
+    if (!isValidArticleFilename(filename)) {
       return res.status(400).json({ error: 'Invalid filename' });
     }
     
-    const articlesDir = path.join(__dirname, 'research-articles');
-    const filepath = path.join(articlesDir, filename);
-    
     try {
-      const content = await fs.readFile(filepath, 'utf-8');
-      
-      // Parse frontmatter and content
-      const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-      let metadata = {};
-      let articleContent = content;
-      
-      if (frontmatterMatch) {
-        try {
-          const frontmatter = frontmatterMatch[1];
-          const lines = frontmatter.split('\n');
-          metadata = lines.reduce((acc: any, line: string) => {
-            const [key, ...valueParts] = line.split(':');
-            if (key && valueParts.length > 0) {
-              const value = valueParts.join(':').trim().replace(/^["']|["']$/g, '');
-              acc[key.trim()] = value;
-            }
-            return acc;
-          }, {});
-          
-          // Remove frontmatter from content
-          articleContent = content.replace(/^---\n[\s\S]*?\n---\n/, '');
-          
-          // Strip markdown code block wrapper if it exists
-          if (articleContent.startsWith('```markdown\n') && articleContent.endsWith('\n```')) {
-            articleContent = articleContent.slice(12, -4); // Remove ```markdown\n from start and \n``` from end
-          }
-        } catch (parseError) {
-          console.warn(`Failed to parse frontmatter for ${filename}:`, parseError);
-        }
-      }
+      const content = await fsPromises.readFile(researchArticlePath(filename), 'utf-8');
+      const { metadata, content: articleContent } = parseResearchArticle(filename, content);
       
       res.json({
         filename,
@@ -924,23 +1674,20 @@ app.get('/api/research-articles/:filename', async (req, res) => {
 app.delete('/api/research-articles/:filename', async (req, res) => {
   try {
     const { filename } = req.params;
-    const path = require('path');
-    const fs = require('fs/promises');
     
     // Validate filename to prevent directory traversal
-    if (filename.includes('..') || filename.includes('/') || !filename.endsWith('.md')) {
+    if (!isValidArticleFilename(filename)) {
       return res.status(400).json({ error: 'Invalid filename' });
     }
     
-    const articlesDir = path.join(__dirname, 'research-articles');
-    const filepath = path.join(articlesDir, filename);
+    const filepath = researchArticlePath(filename);
     
     try {
       // Check if file exists before trying to delete
-      await fs.access(filepath);
+      await fsPromises.access(filepath);
       
       // Delete the file
-      await fs.unlink(filepath);
+      await fsPromises.unlink(filepath);
       
       res.json({
         message: 'Article deleted successfully',
@@ -967,8 +1714,49 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
   });
 });
 
-app.listen(port, () => {
-  console.log(`PDF Queue Server is running on http://localhost:${port}`);
-  console.log('Use POST /upload with multipart/form-data to upload PDF files.');
-  console.log('Files will be processed in the background queue.');
+async function recoverWorkspaceTasks(): Promise<void> {
+  for (const workspace of listWorkspaces()) {
+    await runInWorkspace(getWorkspaceContext(workspace.id)!, () => queueService.recoverTasks());
+  }
+}
+
+// Index documents completed before the search indexes existed, or embedded with another model
+async function backfillWorkspaceSearchIndexes(): Promise<void> {
+  for (const workspace of listWorkspaces()) {
+    await runInWorkspace(getWorkspaceContext(workspace.id)!, async () => {
+      await textIndexService.backfill();
+      await embeddingService.backfill();
+    });
+  }
+}
+
+async function startServer(): Promise<void> {
+  // Bring the databases up to date before anything reads from them
+  await migrateWorkspaces();
+  for (const workspace of listWorkspaces()) {
+    await runInWorkspace(getWorkspaceContext(workspace.id)!, () => loadExistingQueues());
+  }
+
+  textIndexService.start();
+  embeddingService.start();
+
+  // Resume tasks interrupted by the last shutdown before uploads, imports and the inbox add new ones
+  await recoverWorkspaceTasks()
+    .catch(error => console.error('[QUEUE] Failed to recover interrupted tasks:', error));
+
+  app.listen(port, () => {
+    console.log(`PDF Queue Server is running on http://localhost:${port}`);
+    console.log('Use POST /upload with multipart/form-data to upload PDF files.');
+    console.log('Files will be processed in the background queue.');
+  });
+
+  backfillWorkspaceSearchIndexes()
+    .catch(error => console.error('[SEARCH] Failed to queue documents for indexing:', error));
+  inboxWatcher.start()
+    .catch(error => console.error('[INBOX] Failed to start inbox watcher:', error));
+}
+
+startServer().catch(error => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
 }); 
\ No newline at end of file
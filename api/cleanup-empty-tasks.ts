@@ -1,9 +1,13 @@
+import path from 'path';
 import { IndicesDatabaseService } from './services/indicesDatabaseService';
+import { getStorage } from './services/storage/storage';
+import { runMigrations } from './services/storage/migrationRunner';
 
 async function cleanupEmptyTasks() {
   console.log('Starting cleanup of empty tasks...');
   
   try {
+    await runMigrations(getStorage(), { dataDir: path.join(process.cwd(), 'data') });
     const indicesDb = new IndicesDatabaseService();
     
     // Get current stats before cleanup
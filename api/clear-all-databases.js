@@ -1,62 +1,42 @@
 const fs = require('fs');
 const path = require('path');
+const Database = require('better-sqlite3');
 
-const dataDir = path.join(__dirname, 'data');
-
-const filesToReset = [
-  {
-    filename: 'database.json',
-    empty: {
-      tasks: [],
-      settings: {
-        lastBackup: new Date().toISOString(),
-        version: '1.0.0'
-      },
-      statistics: {
-        totalProcessed: 0,
-        totalFailed: 0,
-        lastProcessedDate: new Date().toISOString()
-      }
-    }
-  },
-  {
-    filename: 'chat-database.json',
-    empty: {
-      messages: [],
-      sessions: [],
-      settings: {
-        lastBackup: new Date().toISOString(),
-        version: '1.0.0'
-      },
-      statistics: {
-        totalMessages: 0,
-        totalSessions: 0,
-        lastMessageDate: new Date().toISOString()
-      }
-    }
-  },
-  {
-    filename: 'agent-queues.json',
-    empty: {
-      queues: {}
-    }
-  }
+const dbPath = process.env.DATABASE_PATH || path.join(__dirname, 'data', 'app.db');
+
+// Document tasks, chat history and agent queues; indices and memory history are kept
+const tablesToReset = [
+  'tasks',
+  'chat_messages',
+  'chat_sessions',
+  'agent_queues',
+  'agent_tasks'
 ];
 
-console.log('🗑️ Resetting main database files...');
+if (!fs.existsSync(dbPath)) {
+  console.log(`Nothing to reset, ${dbPath} does not exist`);
+  process.exit(0);
+}
+
+console.log('🗑️ Resetting main database tables...');
+
+const db = new Database(dbPath);
+db.pragma('busy_timeout = 5000');
 
-for (const { filename, empty } of filesToReset) {
-  const filePath = path.join(dataDir, filename);
+for (const table of tablesToReset) {
   try {
-    fs.writeFileSync(filePath, JSON.stringify(empty, null, 2));
-    console.log(`✅ Reset: ${filename}`);
+    const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+    if (exists) db.prepare(`DELETE FROM "${table}"`).run();
+    console.log(`✅ Reset: ${table}`);
   } catch (err) {
-    console.error(`❌ Failed to reset: ${filename}`, err);
+    console.error(`❌ Failed to reset: ${table}`, err);
   }
 }
 
-console.log('\n🎉 All main database files have been reset!');
+db.close();
+
+console.log('\n🎉 All main database tables have been reset!');
 console.log('\nSummary:');
-for (const { filename } of filesToReset) {
-  console.log(`   • ${filename} reset to empty state`);
+for (const table of tablesToReset) {
+  console.log(`   • ${table} emptied`);
 }
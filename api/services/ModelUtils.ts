@@ -1,118 +1,217 @@
-import OpenAI from 'openai';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+import { AsyncLocalStorage } from 'async_hooks';
+import { getLLMProvider, resolveModel, LLMProvider, ModelCallKind, ModelCompletion, ModelRequest } from './llm/llmProvider';
+import { ModelCallLane, ModelRateLimiter, isRateLimitError, retryAfterMs } from './llm/rateLimiter';
+import { ModelUsage, recordModelUsage } from './usageService';
+import { errorMessage, isTransientError, retryDelayMs, waitForRetry } from './retryPolicy';
 
 export interface OpenAIResponse {
   text: string;
   success: boolean;
   error?: string;
+  cause?: unknown; // The provider error, so failures can still be classified for retries
+  usage?: ModelUsage;
+}
+
+// Rough size of a call before the provider reports its usage: ~4 characters per token plus the answer
+const ESTIMATED_OUTPUT_TOKENS = 1000;
+const estimateTokens = (systemPrompt: string, userPrompt: string) =>
+  Math.ceil((systemPrompt.length + userPrompt.length) / 4) + ESTIMATED_OUTPUT_TOKENS;
+
+let rateLimiter: ModelRateLimiter | null = null;
+
+// One limiter for every model call in the process; created lazily so .env is loaded first
+function getRateLimiter(): ModelRateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = new ModelRateLimiter({
+      requestsPerMinute: parseInt(process.env.LLM_REQUESTS_PER_MINUTE || '0', 10),
+      tokensPerMinute: parseInt(process.env.LLM_TOKENS_PER_MINUTE || '0', 10),
+      maxConcurrent: parseInt(process.env.LLM_MAX_CONCURRENT_REQUESTS || '4', 10)
+    });
+  }
+  return rateLimiter;
+}
+
+export function getRateLimiterStatus() {
+  return getRateLimiter().getStatus();
 }
 
+const laneStorage = new AsyncLocalStorage<ModelCallLane>();
+
 /**
- * Call OpenAI o4-mini model for reasoning tasks (analysis, comparison, JSON extraction, etc.)
- * Uses medium effort reasoning
+ * Run fn with its model calls in the given lane. Calls outside any lane are batch work;
+ * chat runs in the interactive lane so users are not stuck behind a document backfill.
  */
-export async function callReasoningModel(
-  systemPrompt: string, 
+export function runInModelLane<T>(lane: ModelCallLane, fn: () => Promise<T>): Promise<T> {
+  return laneStorage.run(lane, fn);
+}
+
+/**
+ * Complete a request within the shared rate limit. Rate-limited responses (429/529) are retried
+ * up to LLM_RATE_LIMIT_RETRIES times after their Retry-After, or with backoff when there is none.
+ * Other transient failures (5xx, dropped connections, timeouts) are retried with backoff up to
+ * LLM_TRANSIENT_RETRIES times, unless part of the answer was already streamed.
+ */
+async function completeWithinRateLimit(provider: LLMProvider, request: ModelRequest, logPrefix: string): Promise<ModelCompletion> {
+  const limiter = getRateLimiter();
+  const lane = laneStorage.getStore() || 'batch';
+  const estimatedTokens = estimateTokens(request.systemPrompt, request.userPrompt);
+  const maxRetries = parseInt(process.env.LLM_RATE_LIMIT_RETRIES || '3', 10);
+  const maxTransientRetries = parseInt(process.env.LLM_TRANSIENT_RETRIES || '2', 10);
+  let transientRetries = 0;
+
+  let streamed = false;
+  const onText = request.onText;
+  if (onText) {
+    request = { ...request, onText: delta => { streamed = true; onText(delta); } };
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    // A retry keeps its place at the head of the lane
+    const permit = await limiter.acquire(lane, estimatedTokens, request.signal, attempt > 1);
+    try {
+      const completion = await provider.complete(request);
+      limiter.release(permit, completion.usage ? completion.usage.inputTokens + completion.usage.outputTokens : undefined);
+      return completion;
+    } catch (error) {
+      const retryable = !request.signal?.aborted && !streamed;
+      const rateLimited = retryable && isRateLimitError(error);
+      if (rateLimited) limiter.recordRateLimited();
+      // Only when a retry follows; a call that gives up does not hold back the others
+      if (rateLimited && attempt <= maxRetries) {
+        // Paused before the slot is released, so no waiting call slips through
+        const delayMs = retryAfterMs(error) ?? retryDelayMs(attempt);
+        limiter.pause(delayMs);
+        console.warn(`${logPrefix} Rate limited by ${provider.name}, retrying in ${Math.round(delayMs / 1000)}s (retry ${attempt}/${maxRetries})`);
+      }
+      limiter.release(permit);
+      if (rateLimited) {
+        if (attempt > maxRetries) throw error;
+        continue;
+      }
+
+      // Only this call backs off; other callers are not held back by one failed request
+      if (!retryable || !isTransientError(error) || transientRetries >= maxTransientRetries) throw error;
+      transientRetries++;
+      const delayMs = retryDelayMs(transientRetries);
+      console.warn(`${logPrefix} Transient error from ${provider.name} (${errorMessage(error)}), retrying in ${Math.round(delayMs / 1000)}s (retry ${transientRetries}/${maxTransientRetries})`);
+      await waitForRetry(delayMs, request.signal);
+    }
+  }
+}
+
+async function callModel(
+  kind: ModelCallKind,
+  systemPrompt: string,
   userPrompt: string,
-  logPrefix: string = '[REASONING MODEL]'
+  logPrefix: string,
+  previewLength: number,
+  signal?: AbortSignal,
+  onText?: (delta: string) => void
 ): Promise<OpenAIResponse> {
   try {
-    console.log(`${logPrefix} Making API call to o4-mini reasoning model`);
-    
-    const completion = await openai.responses.create({
-      model: 'o4-mini',
-      reasoning: { effort: 'medium' },
-      input: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ]
-    });
-    
-    console.log(`${logPrefix} API Response:`, JSON.stringify(completion, null, 2));
-    
-    const text = completion.output_text?.trim() || '';
+    const provider = getLLMProvider();
+    const model = resolveModel(provider, kind);
+    console.log(`${logPrefix} Making API call to ${model} ${kind} model via ${provider.name}${onText ? ' (streaming)' : ''}`);
+
+    let streamed = false;
+    const completion = await completeWithinRateLimit(provider, {
+      kind, model, systemPrompt, userPrompt, signal,
+      onText: onText && (delta => {
+        streamed = true;
+        onText(delta);
+      })
+    }, logPrefix);
+    // Providers that cannot stream, and cassette replays, hand over the whole answer at once
+    if (onText && !streamed && completion.text) {
+      onText(completion.text);
+    }
+
+    console.log(`${logPrefix} API Response:`, JSON.stringify(completion.raw ?? completion.text, null, 2));
+
+    // Usage is recorded even for empty responses since the tokens were still billed
+    const usage = completion.usage ? recordModelUsage(model, provider.name, completion.usage) : undefined;
+    if (usage) {
+      console.log(`${logPrefix} Usage: ${usage.inputTokens} in / ${usage.outputTokens} out (${usage.reasoningTokens} reasoning), $${usage.cost.toFixed(4)}`);
+    }
+
+    const text = completion.text;
     console.log(`${logPrefix} Response text length:`, text.length);
-    console.log(`${logPrefix} Response preview:`, text.substring(0, 200) + '...');
-    
+    console.log(`${logPrefix} Response preview:`, text.substring(0, previewLength) + '...');
+
     if (!text) {
-      console.warn(`${logPrefix} Empty response from OpenAI`);
+      console.warn(`${logPrefix} Empty response from ${provider.name}`);
       return {
         text: '',
         success: false,
-        error: 'Empty response from OpenAI'
+        error: `Empty response from ${provider.name}`,
+        usage
       };
     }
-    
+
     return {
       text,
-      success: true
+      success: true,
+      usage
     };
-    
+
   } catch (error) {
-    console.error(`${logPrefix} Error calling OpenAI API:`, error);
+    // Cancellation is not a model failure, callers stop instead of falling back
+    if (signal?.aborted) {
+      console.log(`${logPrefix} Model call cancelled`);
+      throw signal.reason;
+    }
+    console.error(`${logPrefix} Error calling model API:`, error);
     return {
       text: '',
       success: false,
-      error: error instanceof Error ? error.message : String(error)
+      error: error instanceof Error ? error.message : String(error),
+      cause: error
     };
   }
 }
 
 /**
- * Call OpenAI gpt-4o-mini model for writing tasks (article generation, long-form content)
- * Uses regular completion without reasoning for faster, more direct writing
+ * Call the reasoning model for reasoning tasks (analysis, comparison, JSON extraction, etc.)
+ * Defaults to o4-mini with medium effort reasoning on the openai provider
+ */
+export async function callReasoningModel(
+  systemPrompt: string,
+  userPrompt: string,
+  logPrefix: string = '[REASONING MODEL]',
+  signal?: AbortSignal
+): Promise<OpenAIResponse> {
+  return callModel('reasoning', systemPrompt, userPrompt, logPrefix, 200, signal);
+}
+
+/**
+ * Call the reasoning model and receive its answer while it is generated. onText gets the text
+ * in pieces as they arrive; the returned response still holds the complete answer.
+ */
+export async function streamReasoningModel(
+  systemPrompt: string,
+  userPrompt: string,
+  onText: (delta: string) => void,
+  logPrefix: string = '[REASONING MODEL]',
+  signal?: AbortSignal
+): Promise<OpenAIResponse> {
+  return callModel('reasoning', systemPrompt, userPrompt, logPrefix, 200, signal, onText);
+}
+
+/**
+ * Call the writing model for writing tasks (article generation, long-form content)
+ * Defaults to gpt-4o-mini without reasoning on the openai provider for faster, more direct writing
  */
 export async function callWritingModel(
-  systemPrompt: string, 
+  systemPrompt: string,
   userPrompt: string,
-  logPrefix: string = '[WRITING MODEL]'
+  logPrefix: string = '[WRITING MODEL]',
+  signal?: AbortSignal
 ): Promise<OpenAIResponse> {
-  try {
-    console.log(`${logPrefix} Making API call to gpt-4o-mini writing model`);
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 4000
-    });
-    
-    console.log(`${logPrefix} API Response:`, JSON.stringify(completion, null, 2));
-    
-    const text = completion.choices[0]?.message?.content?.trim() || '';
-    console.log(`${logPrefix} Response text length:`, text.length);
-    console.log(`${logPrefix} Response preview:`, text.substring(0, 500) + '...');
-    
-    if (!text) {
-      console.warn(`${logPrefix} Empty response from OpenAI`);
-      return {
-        text: '',
-        success: false,
-        error: 'Empty response from OpenAI'
-      };
-    }
-    
-    return {
-      text,
-      success: true
-    };
-    
-  } catch (error) {
-    console.error(`${logPrefix} Error calling OpenAI API:`, error);
-    return {
-      text: '',
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    };
-  }
+  return callModel('writing', systemPrompt, userPrompt, logPrefix, 500, signal);
 }
 
 /**
- * Helper function to extract JSON from OpenAI response that might be wrapped in markdown
+ * Helper function to extract JSON from model response that might be wrapped in markdown
  */
 export function extractJsonFromResponse(text: string): string {
   // Try to extract JSON from markdown code blocks if present
@@ -120,7 +219,7 @@ export function extractJsonFromResponse(text: string): string {
   if (codeBlockMatch) {
     return codeBlockMatch[1].trim();
   }
-  
+
   // If no code blocks, return the text as-is
   return text.trim();
-} 
\ No newline at end of file
+}
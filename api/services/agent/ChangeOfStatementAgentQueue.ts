@@ -40,7 +40,7 @@ Output as JSON (do not wrap in markdown code blocks):
 }
 `;
 
-    const response = await callReasoningModel(systemPrompt, userPrompt, '[CHANGE OF STATEMENT AGENT QUEUE]');
+    const response = await this.trackUsage(() => callReasoningModel(systemPrompt, userPrompt, '[CHANGE OF STATEMENT AGENT QUEUE]'));
     
     if (response.success) {
       try {
@@ -150,12 +150,14 @@ Output as JSON (do not wrap in markdown code blocks):
   async process(): Promise<void> {
     console.log(`[CHANGE OF STATEMENT AGENT] Starting processing for: ${this.name}`);
     
+    const signal = this.beginRun();
     const tasks = await this.getTasks();
     const pendingTasks = tasks.filter(t => t.status === 'pending');
     
     console.log(`[CHANGE OF STATEMENT AGENT] Processing ${pendingTasks.length} pending tasks`);
 
     for (const task of pendingTasks) {
+      if (signal.aborted) break;
       try {
         // Mark task as processing
         await this.updateTask(task.id, { status: 'processing' });
@@ -169,7 +171,8 @@ Output as JSON (do not wrap in markdown code blocks):
           throw new Error(`Unknown task type: ${task.type}`);
         }
         
-        const result = await worker.process(task.payload, task.id);
+        const result = await this.runWithRetry(task, () => this.trackUsage(() => worker.process(task.payload, task.id, signal), task.id), signal);
+        signal.throwIfAborted();
         
         // Mark task as completed
         await this.updateTask(task.id, { 
@@ -179,6 +182,11 @@ Output as JSON (do not wrap in markdown code blocks):
         
         console.log(`[CHANGE OF STATEMENT AGENT] Completed task: ${task.id}`);
       } catch (error) {
+        // cancel() already marked the remaining tasks cancelled
+        if (signal.aborted) {
+          console.log(`[CHANGE OF STATEMENT AGENT] Cancelled while processing task: ${task.id}`);
+          break;
+        }
         console.error(`[CHANGE OF STATEMENT AGENT] Error processing task ${task.id}:`, error);
         await this.updateTask(task.id, { 
           status: 'failed', 
@@ -26,7 +26,7 @@ export class IndicesAgentQueue extends AgentQueue {
     
     // Analyze user intent and generate task name using PromptManager
     const prompts = await PromptManager.getPrompt('intentAnalysis', 'indices', { userQuery });
-    const response = await callReasoningModel(prompts.system, prompts.user, '[INDICES AGENT QUEUE]');
+    const response = await this.trackUsage(() => callReasoningModel(prompts.system, prompts.user, '[INDICES AGENT QUEUE]'));
     
     if (response.success) {
       try {
@@ -124,19 +124,22 @@ export class IndicesAgentQueue extends AgentQueue {
   async process(): Promise<void> {
     console.log(`[INDICES AGENT] Starting processing for: ${this.name}`);
     
+    const signal = this.beginRun();
     const tasks = await this.getTasks();
     const pendingTasks = tasks.filter(t => t.status === 'pending');
     
     console.log(`[INDICES AGENT] Processing ${pendingTasks.length} pending tasks`);
 
     for (const task of pendingTasks) {
+      if (signal.aborted) break;
       try {
         // Mark task as processing
         await this.updateTask(task.id, { status: 'processing' });
         
         // Create worker and process
         const worker = new QuantifyWorker(this.getMemory());
-        const result = await worker.process(task.payload, task.id);
+        const result = await this.runWithRetry(task, () => this.trackUsage(() => worker.process(task.payload, task.id, signal), task.id), signal);
+        signal.throwIfAborted();
         
         // Mark task as completed
         await this.updateTask(task.id, { 
@@ -146,6 +149,11 @@ export class IndicesAgentQueue extends AgentQueue {
         
         console.log(`[INDICES AGENT] Completed task: ${task.id}`);
       } catch (error) {
+        // cancel() already marked the remaining tasks cancelled
+        if (signal.aborted) {
+          console.log(`[INDICES AGENT] Cancelled while processing task: ${task.id}`);
+          break;
+        }
         console.error(`[INDICES AGENT] Error processing task ${task.id}:`, error);
         await this.updateTask(task.id, { 
           status: 'failed', 
@@ -1,9 +1,29 @@
 import { Memory } from './memory';
 import { MemoryDatabaseService } from './memoryDatabaseService';
 import { IndicesDatabaseService } from '../indicesDatabaseService';
-import { callReasoningModel, callWritingModel, extractJsonFromResponse } from '../ModelUtils';
+import { currentWorkspace } from '../workspaceContext';
+import { callReasoningModel, callWritingModel, extractJsonFromResponse, OpenAIResponse } from '../ModelUtils';
+import { wrapError } from '../retryPolicy';
 import { PromptManager } from '../promptManager';
-import OpenAI from 'openai';
+
+// The JSON object of a model answer; failed calls and unparseable answers are thrown
+function parseWorkerJson(response: OpenAIResponse, logPrefix: string): any {
+  if (!response.success || !response.text) {
+    throw wrapError(response.error || 'No response generated by OpenAI', response.cause);
+  }
+  
+  const jsonText = extractJsonFromResponse(response.text);
+  console.log(`${logPrefix} Extracted JSON text:`, jsonText);
+  
+  try {
+    const output = JSON.parse(jsonText);
+    console.log(`${logPrefix} Parsed JSON output:`, output);
+    return output;
+  } catch (parseError) {
+    console.error(`${logPrefix} Error parsing JSON:`, parseError);
+    throw new Error(`Failed to parse OpenAI output as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+}
 
 export abstract class Worker {
   protected memory: Memory;
@@ -14,9 +34,10 @@ export abstract class Worker {
     this.memoryDb = new MemoryDatabaseService();
   }
 
-  protected abstract coreProcess(taskPayload: any, context: string): Promise<string | object>;
+  protected abstract coreProcess(taskPayload: any, context: string, signal?: AbortSignal): Promise<string | object>;
 
-  async process(taskPayload: any, taskId: string): Promise<any> {
+  // The signal aborts in-flight model calls when the agent queue is cancelled
+  async process(taskPayload: any, taskId: string, signal?: AbortSignal): Promise<any> {
     console.log(`[WORKER] Starting task: ${taskId}`);
     
     // Get context from memory
@@ -26,7 +47,7 @@ export abstract class Worker {
     console.log(`[WORKER] Context content: ${context.substring(0, 200)}${context.length > 200 ? '...' : ''}`);
     
     // Process the task
-    const result = await this.coreProcess(taskPayload, context);
+    const result = await this.coreProcess(taskPayload, context, signal);
     
     // Update memory with result
     await this.memory.add(`Task ${taskId} completed with result: ${JSON.stringify(result).substring(0, 500)}`);
@@ -43,9 +64,7 @@ export class QuantifyWorker extends Worker {
     this.indicesDb = new IndicesDatabaseService();
   }
 
-  protected async coreProcess(taskPayload: any, context: string): Promise<object> {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-    
+  protected async coreProcess(taskPayload: any, context: string, signal?: AbortSignal): Promise<object> {
     // Load article text from file if not provided directly
     let article = taskPayload.article || '';
     if (!article && taskPayload.extractedTextPath) {
@@ -114,48 +133,33 @@ export class QuantifyWorker extends Worker {
 
     const prompts = await PromptManager.getPrompt('workers', 'quantify', promptVariables);
 
-    const response = await callReasoningModel(prompts.system, prompts.user, '[QUANTIFY WORKER]');
+    const response = await callReasoningModel(prompts.system, prompts.user, '[QUANTIFY WORKER]', signal);
     
-    // Try to parse the output as JSON
-    let output: any = {};
+    // Failed calls and malformed output are thrown, so the queue retries them when they are transient
+    const output = parseWorkerJson(response, '[QUANTIFY WORKER]');
     let scoreSummary = '';
     
-    if (!response.success) {
-      output = { error: response.error || 'Failed to get response from OpenAI', raw: response.text };
-    } else {
+    // Ensure the score_name matches the provided indexName
+    output.score_name = indexName;
+    console.log(`[QUANTIFY WORKER] Using provided index name: ${indexName}`);
+    
+    if (output.score_name && output.score_value !== undefined) {
+      scoreSummary = `${output.score_name}: ${output.score_value}`;
+      
+      // Save the index to the indices database
       try {
-        const jsonText = extractJsonFromResponse(response.text);
-        console.log('[QUANTIFY WORKER] Extracted JSON text:', jsonText);
-        
-        output = JSON.parse(jsonText);
-        console.log('[QUANTIFY WORKER] Parsed JSON output:', output);
-        
-        // Ensure the score_name matches the provided indexName
-        output.score_name = indexName;
-        console.log(`[QUANTIFY WORKER] Using provided index name: ${indexName}`);
-        
-        if (output.score_name && output.score_value !== undefined) {
-          scoreSummary = `${output.score_name}: ${output.score_value}`;
-          
-          // Save the index to the indices database
-          try {
-            await this.indicesDb.addIndicesCreationIndex(
-              output.score_name,
-              output.score_value,
-              output.article_id || taskPayload.article_id,
-              taskPayload.filename || 'unknown',
-              output.quotes || [],
-              output.rational || '',
-              taskPayload.timestamp,
-              taskPayload.taskId
-            );
-          } catch (error) {
-            console.error(`[QUANTIFY WORKER] Failed to save index to database:`, error);
-          }
-        }
-      } catch (e) {
-        console.error('[QUANTIFY WORKER] Error parsing JSON:', e);
-        output = { error: 'Failed to parse OpenAI output as JSON', raw: response.text };
+        await this.indicesDb.addIndicesCreationIndex(
+          output.score_name,
+          output.score_value,
+          output.article_id || taskPayload.article_id,
+          taskPayload.filename || 'unknown',
+          output.quotes || [],
+          output.rational || '',
+          taskPayload.timestamp,
+          taskPayload.taskId
+        );
+      } catch (error) {
+        console.error(`[QUANTIFY WORKER] Failed to save index to database:`, error);
       }
     }
     
@@ -164,7 +168,7 @@ export class QuantifyWorker extends Worker {
 }
 
 export class ResearchWorker extends Worker {
-  protected async coreProcess(taskPayload: any, context: string): Promise<object> {
+  protected async coreProcess(taskPayload: any, context: string, signal?: AbortSignal): Promise<object> {
     // Load article text from file if not provided directly
     let article = taskPayload.article || '';
     if (!article && taskPayload.extractedTextPath) {
@@ -232,29 +236,11 @@ export class ResearchWorker extends Worker {
     const prompts = await PromptManager.getPrompt('workers', 'research', promptVariables);
     console.log(`[RESEARCH WORKER] Using PromptManager for research worker`);
 
-    const response = await callReasoningModel(prompts.system, prompts.user, '[RESEARCH WORKER]');
-    
-    let output: any = {};
-    let summary = '';
+    const response = await callReasoningModel(prompts.system, prompts.user, '[RESEARCH WORKER]', signal);
     
-    if (!response.success) {
-      output = { error: response.error || 'Failed to get response from OpenAI', raw: response.text };
-    } else {
-      try {
-        const jsonText = extractJsonFromResponse(response.text);
-        console.log('[RESEARCH WORKER] Extracted JSON text:', jsonText);
-        
-        output = JSON.parse(jsonText);
-        console.log('[RESEARCH WORKER] Parsed JSON output:', output);
-        
-        if (output.answer) {
-          summary = output.answer;
-        }
-      } catch (e) {
-        console.error('[RESEARCH WORKER] Error parsing JSON:', e);
-        output = { error: 'Failed to parse OpenAI output as JSON', raw: response.text };
-      }
-    }
+    // Failed calls and malformed output are thrown, so the queue retries them when they are transient
+    const output = parseWorkerJson(response, '[RESEARCH WORKER]');
+    const summary = output.answer || '';
     
     // Add timestamp to output if available
     if (timestamp) {
@@ -266,7 +252,7 @@ export class ResearchWorker extends Worker {
 }
 
 export class WritingWorker extends Worker {
-  protected async coreProcess(taskPayload: any, context: string): Promise<object> {
+  protected async coreProcess(taskPayload: any, context: string, signal?: AbortSignal): Promise<object> {
     const question = taskPayload.question || '';
     const intent = taskPayload.intent || '';
     const historicalResearch = context;
@@ -279,7 +265,7 @@ export class WritingWorker extends Worker {
     const titlePrompts = await PromptManager.getPrompt('workers', 'writingTitle', titlePromptVariables);
     console.log(`[WRITING WORKER] Using PromptManager for title generation`);
 
-    const titleResponse = await callReasoningModel(titlePrompts.system, titlePrompts.user, '[WRITING WORKER - TITLE]');
+    const titleResponse = await callReasoningModel(titlePrompts.system, titlePrompts.user, '[WRITING WORKER - TITLE]', signal);
     
     const articleTitle = titleResponse.text || question;
     console.log('[WRITING WORKER] Generated article title:', articleTitle);
@@ -295,7 +281,7 @@ export class WritingWorker extends Worker {
     const articlePrompts = await PromptManager.getPrompt('workers', 'writingArticle', articlePromptVariables);
     console.log(`[WRITING WORKER] Using PromptManager for article generation`);
 
-    const articleResponse = await callWritingModel(articlePrompts.system, articlePrompts.user, '[WRITING WORKER - ARTICLE]');
+    const articleResponse = await callWritingModel(articlePrompts.system, articlePrompts.user, '[WRITING WORKER - ARTICLE]', signal);
     
     let article = '';
     if (!articleResponse.success) {
@@ -310,7 +296,7 @@ export class WritingWorker extends Worker {
     
     try {
       // Create research-articles directory if it doesn't exist
-      const articlesDir = path.join(process.cwd(), 'research-articles');
+      const articlesDir = currentWorkspace().directories['research-articles'];
       await fs.mkdir(articlesDir, { recursive: true });
       
       // Generate a clean, readable filename from the article title
@@ -1,16 +1,23 @@
 import { AgentQueueDatabaseService, QueueMetadata, TaskMetadata } from './agentQueueDatabaseService';
 import { Memory } from './memory';
 import { MemoryDatabaseService } from './memoryDatabaseService';
+import { TaskAttempt, UsageTotals } from '../../types';
+import { UsageTracker, runWithUsageTracker } from '../usageService';
+import { publishEvent } from '../eventService';
+import { recordFailedAttempt, waitForRetry } from '../retryPolicy';
 
 export interface AgentTask {
   id: string;
   type: string;
   payload?: any; // Optional lightweight payload
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   metadata?: Record<string, any>;
   resultPath?: string;
   result?: any;
   error?: string;
+  usage?: UsageTotals;
+  attempts?: number;
+  attemptHistory?: TaskAttempt[];
 }
 
 export class AgentQueue {
@@ -18,6 +25,8 @@ export class AgentQueue {
   private memoryDb: MemoryDatabaseService;
   private memory: Memory;
   private queueId: string;
+  private abortController: AbortController | null = null; // Current process() run, for cancellation
+  private running = false; // A run() or restart() is in progress
 
   constructor(memory: Memory, queueId?: string) {
     this.db = new AgentQueueDatabaseService();
@@ -63,6 +72,7 @@ export class AgentQueue {
 
       await this.db.addTask(this.queueId, taskMetadata, payload);
       console.log(`[AGENT QUEUE] Added task: ${task.id} (${task.type}) to queue: ${this.queueId}`);
+      publishEvent({ type: 'agent-task', queueId: this.queueId, taskId: task.id, status: task.status });
     } catch (error) {
       console.error(`[AGENT QUEUE] Failed to add task: ${task.id}`, error);
       throw error;
@@ -85,7 +95,10 @@ export class AgentQueue {
           metadata: taskMetadata.metadata,
           resultPath: taskMetadata.resultPath,
           result: taskMetadata.result,
-          error: taskMetadata.error
+          error: taskMetadata.error,
+          usage: taskMetadata.usage,
+          attempts: taskMetadata.attempts,
+          attemptHistory: taskMetadata.attemptHistory
         });
       }
 
@@ -115,7 +128,10 @@ export class AgentQueue {
         metadata: taskMetadata.metadata,
         resultPath: taskMetadata.resultPath,
         result: taskMetadata.result,
-        error: taskMetadata.error
+        error: taskMetadata.error,
+        usage: taskMetadata.usage,
+        attempts: taskMetadata.attempts,
+        attemptHistory: taskMetadata.attemptHistory
       };
 
       console.log(`[AGENT QUEUE] Retrieved task: ${taskId}`);
@@ -136,7 +152,9 @@ export class AgentQueue {
         metadata: updateData.metadata,
         resultPath: updateData.resultPath,
         result: updateData.result,
-        error: updateData.error
+        error: updateData.error,
+        attempts: updateData.attempts,
+        attemptHistory: updateData.attemptHistory
       };
 
       // Remove undefined values
@@ -150,6 +168,7 @@ export class AgentQueue {
       
       if (result) {
         console.log(`[AGENT QUEUE] Updated task: ${taskId} with updates: ${JSON.stringify(taskUpdates)}`);
+        publishEvent({ type: 'agent-task', queueId: this.queueId, taskId, status: taskUpdates.status, error: taskUpdates.error });
       } else {
         console.warn(`[AGENT QUEUE] Failed to update task: ${taskId}`);
       }
@@ -179,6 +198,121 @@ export class AgentQueue {
     }
   }
 
+  /**
+   * Run fn and attribute the model usage it causes to this queue (and to the task, if given).
+   * Usage is saved even when fn throws, failed attempts are billed too.
+   */
+  protected async trackUsage<T>(fn: () => Promise<T>, taskId?: string): Promise<T> {
+    const tracker = new UsageTracker();
+    try {
+      return await runWithUsageTracker(tracker, fn);
+    } finally {
+      const usage = tracker.getTotals();
+      if (usage.calls > 0) {
+        try {
+          await this.db.addUsage(this.queueId, taskId, usage);
+        } catch (error) {
+          console.error(`[AGENT QUEUE] Failed to record usage for queue: ${this.queueId}`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a task's work, retrying transient failures (timeouts, rate limits, malformed model
+   * output) with exponential backoff up to AGENT_TASK_MAX_ATTEMPTS. Every failed attempt is
+   * recorded in the task's attemptHistory; the last error is re-thrown once retries run out.
+   */
+  protected async runWithRetry<T>(task: AgentTask, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const maxAttempts = parseInt(process.env.AGENT_TASK_MAX_ATTEMPTS || '3', 10);
+    const history = [...(task.attemptHistory || [])];
+    const previousAttempts = task.attempts || 0; // From earlier runs, before a restart
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date();
+      await this.updateTask(task.id, { attempts: previousAttempts + attempt });
+      try {
+        return await fn();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        const { entry, retryInMs } = recordFailedAttempt(attempt, maxAttempts, startedAt, error);
+        history.push({ ...entry, attempt: previousAttempts + attempt });
+        await this.updateTask(task.id, { attemptHistory: history });
+        if (retryInMs === undefined) throw error;
+
+        console.warn(`[AGENT QUEUE] Transient failure of task ${task.id} (attempt ${attempt}/${maxAttempts}), retrying in ${Math.round(retryInMs / 1000)}s`);
+        await waitForRetry(retryInMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Start a processing run. The returned signal is aborted by cancel(); process() loops stop
+   * when it is and pass it on to their workers so in-flight model calls are aborted too.
+   */
+  protected beginRun(): AbortSignal {
+    this.abortController = new AbortController();
+    return this.abortController.signal;
+  }
+
+  /**
+   * Cancel the queue: abort the running task and mark all pending and processing tasks cancelled.
+   * Returns the number of cancelled tasks.
+   */
+  async cancel(): Promise<number> {
+    this.abortController?.abort(new Error('Agent queue cancelled'));
+
+    const tasks = await this.db.getQueueTasks(this.queueId);
+    let cancelled = 0;
+    for (const task of tasks) {
+      if (task.status === 'pending' || task.status === 'processing') {
+        await this.updateTask(task.id, { status: 'cancelled' });
+        cancelled++;
+      }
+    }
+    await this.updateQueueStatus('cancelled');
+    console.log(`[AGENT QUEUE] Cancelled queue ${this.queueId} (${cancelled} tasks)`);
+    return cancelled;
+  }
+
+  getQueueId(): string {
+    return this.queueId;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Process the pending tasks; refused while another run is going, so no task is worked on twice
+  async run(): Promise<void> {
+    if (this.running) {
+      throw new Error(`Agent queue ${this.queueId} is already running`);
+    }
+    this.running = true;
+    try {
+      await this.process();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Reset the tasks from taskId onward and process them again in the background
+  async restart(taskId: string): Promise<void> {
+    if (this.running) {
+      throw new Error(`Agent queue ${this.queueId} is already running`);
+    }
+    this.running = true;
+    try {
+      await this.restartFromTask(taskId);
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+    this.process()
+      .catch(error => console.error(`[AGENT QUEUE] Processing of queue ${this.queueId} failed:`, error))
+      .finally(() => { this.running = false; });
+  }
+
   protected getMemory(): Memory {
     return this.memory;
   }
@@ -228,6 +362,9 @@ export class AgentQueue {
         });
         console.log(`[AGENT QUEUE] Reset task to pending: ${taskIds[i]}`);
       }
+
+      // A cancelled queue becomes active again
+      await this.updateQueueStatus('active');
     } catch (error) {
       console.error(`[AGENT QUEUE] Failed to restart from task: ${taskId}`, error);
       throw error;
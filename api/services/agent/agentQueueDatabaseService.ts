@@ -1,279 +1,183 @@
-import { Low } from 'lowdb';
-import { JSONFile } from 'lowdb/node';
-import path from 'path';
-import fs from 'fs/promises';
+import { TaskAttempt, UsageTotals } from '../../types';
+import { addUsage } from '../usageService';
+import { getStorage, Storage } from '../storage/storage';
+import { agentQueues, agentTasks, StoredAgentTask, StoredQueue } from '../storage/collections';
 
 export interface QueueMetadata {
   id: string;
   name: string;
   type: string;
-  status: 'active' | 'paused' | 'completed' | 'failed';
+  status: 'active' | 'paused' | 'completed' | 'failed' | 'cancelled';
   createdAt: string;
   updatedAt: string;
+  usage?: UsageTotals; // model usage of the whole run (intent analysis + all tasks)
   tasks: { [taskId: string]: TaskMetadata }; // tasks nested under queue
 }
 
 export interface TaskMetadata {
   id: string;
   type: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   metadata: Record<string, any>; // lightweight metadata only
   dataPath?: string; // path to separate data file for large payloads
   resultPath?: string;
   result?: any;
   error?: string;
+  usage?: UsageTotals; // model usage of this task, accumulated across restarts
+  attempts?: number; // times the task was started, including retries
+  attemptHistory?: TaskAttempt[]; // one entry per failed attempt
   createdAt: string;
   updatedAt: string;
 }
 
-interface QueueDatabaseSchema {
-  queues: { [queueId: string]: QueueMetadata };
-}
-
-// Simple mutex implementation for database locking
-class Mutex {
-  private locked = false;
-  private waitQueue: Array<() => void> = [];
-
-  async acquire(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.locked) {
-        this.locked = true;
-        resolve();
-      } else {
-        this.waitQueue.push(resolve);
-      }
-    });
-  }
-
-  release(): void {
-    if (this.waitQueue.length > 0) {
-      const next = this.waitQueue.shift()!;
-      next();
-    } else {
-      this.locked = false;
-    }
-  }
+// Tasks are stored on their own, keyed by queue and task id, and nested again when a queue is read
+function toTaskMetadata({ queueId, ...task }: StoredAgentTask): TaskMetadata {
+  return task;
 }
 
 export class AgentQueueDatabaseService {
-  private db: Low<QueueDatabaseSchema>;
-  private dbPath: string;
-  private mutex = new Mutex();
+  // The storage of the current workspace, so one service instance serves every workspace
+  private get storage(): Storage {
+    return getStorage();
+  }
 
-  constructor() {
-    this.dbPath = path.join(process.cwd(), 'data', 'agent-queues.json');
-    const adapter = new JSONFile<QueueDatabaseSchema>(this.dbPath);
-    this.db = new Low(adapter, { queues: {} });
-    this.initializeDatabase();
+  private get queues() {
+    return agentQueues(this.storage);
   }
 
-  private async ensureInitialized(): Promise<void> {
-    if (!this.db.data) {
-      await this.initializeDatabase();
-    }
+  private get tasks() {
+    return agentTasks(this.storage);
   }
 
-  private async initializeDatabase(): Promise<void> {
-    try {
-      const dbDir = path.dirname(this.dbPath);
-      await fs.mkdir(dbDir, { recursive: true });
-      await this.db.read();
-      if (!this.db.data) {
-        this.db.data = { queues: {} };
-        await this.db.write();
-      }
-    } catch (error) {
-      console.error('[QUEUE DB] Error initializing database:', error);
-      throw error;
-    }
+  private withTasks(queue: StoredQueue, tasks: StoredAgentTask[]): QueueMetadata {
+    return { ...queue, tasks: Object.fromEntries(tasks.map(task => [task.id, toTaskMetadata(task)])) };
   }
 
   // Queue operations
   async createQueue(queueData: Omit<QueueMetadata, 'createdAt' | 'updatedAt' | 'tasks'>): Promise<QueueMetadata> {
-    await this.mutex.acquire();
-    
-    try {
-      await this.ensureInitialized();
-      await this.db.read();
-      
-      const now = new Date().toISOString();
-      const queue: QueueMetadata = {
-        ...queueData,
-        tasks: {},
-        createdAt: now,
-        updatedAt: now
-      };
-      
-      this.db.data!.queues[queue.id] = queue;
-      await this.db.write();
-      return queue;
-    } finally {
-      this.mutex.release();
-    }
+    const now = new Date().toISOString();
+    const queue: StoredQueue = {
+      ...queueData,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.queues.put(queue);
+    return { ...queue, tasks: {} };
   }
 
   async getQueue(queueId: string): Promise<QueueMetadata | undefined> {
-    await this.ensureInitialized();
-    await this.db.read();
-    return this.db.data!.queues[queueId];
+    const queue = this.queues.get(queueId);
+    if (!queue) return undefined;
+    return this.withTasks(queue, this.tasks.find({ queueId }));
   }
 
   async getAllQueues(): Promise<QueueMetadata[]> {
-    await this.ensureInitialized();
-    await this.db.read();
-    return Object.values(this.db.data!.queues);
+    const tasksByQueue = new Map<string, StoredAgentTask[]>();
+    for (const task of this.tasks.all()) {
+      if (!tasksByQueue.has(task.queueId)) tasksByQueue.set(task.queueId, []);
+      tasksByQueue.get(task.queueId)!.push(task);
+    }
+    return this.queues.all().map(queue => this.withTasks(queue, tasksByQueue.get(queue.id) || []));
   }
 
   async updateQueue(queueId: string, updates: Partial<Omit<QueueMetadata, 'id' | 'createdAt' | 'tasks'>>): Promise<boolean> {
-    await this.mutex.acquire();
-    
-    try {
-      await this.ensureInitialized();
-      await this.db.read();
-      
-      const queue = this.db.data!.queues[queueId];
+    return this.storage.transaction(() => {
+      const queue = this.queues.get(queueId);
       if (!queue) return false;
-      
-      this.db.data!.queues[queueId] = {
+
+      this.queues.put({
         ...queue,
         ...updates,
         updatedAt: new Date().toISOString()
-      };
-      
-      await this.db.write();
+      });
       return true;
-    } finally {
-      this.mutex.release();
-    }
+    });
   }
 
   // Task operations
   async addTask(queueId: string, taskData: Omit<TaskMetadata, 'createdAt' | 'updatedAt'>, payload?: any): Promise<TaskMetadata> {
-    await this.mutex.acquire();
-    
-    try {
-      await this.ensureInitialized();
-      await this.db.read();
-      
-      const queue = this.db.data!.queues[queueId];
+    return this.storage.transaction(() => {
+      const queue = this.queues.get(queueId);
       if (!queue) {
         throw new Error(`Queue ${queueId} not found`);
       }
-      
+
       const now = new Date().toISOString();
-      const task: TaskMetadata = {
+      const task: StoredAgentTask = {
         ...taskData,
+        queueId,
         createdAt: now,
         updatedAt: now
       };
-      
+
       // Store payload directly in the task object if provided
       if (payload) {
-        (task as any).payload = payload;
+        task.payload = payload;
       }
-      
-      // Add task to queue
-      queue.tasks[task.id] = task;
-      queue.updatedAt = now;
-      
-      await this.db.write();
-      return task;
-    } finally {
-      this.mutex.release();
-    }
+
+      this.tasks.put(task);
+      this.queues.put({ ...queue, updatedAt: now });
+      return toTaskMetadata(task);
+    });
   }
 
   async getTask(queueId: string, taskId: string): Promise<TaskMetadata | undefined> {
-    await this.ensureInitialized();
-    await this.db.read();
-    
-    const queue = this.db.data!.queues[queueId];
-    if (!queue) return undefined;
-    
-    return queue.tasks[taskId];
+    const task = this.tasks.get(`${queueId}/${taskId}`);
+    return task ? toTaskMetadata(task) : undefined;
   }
 
   async getTaskPayload(queueId: string, taskId: string): Promise<any | undefined> {
-    const task = await this.getTask(queueId, taskId);
-    if (!task) return undefined;
-    // Return the payload property if present
-    return (task as any).payload;
+    return this.tasks.get(`${queueId}/${taskId}`)?.payload;
   }
 
   async getQueueTasks(queueId: string): Promise<TaskMetadata[]> {
-    await this.ensureInitialized();
-    await this.db.read();
-    
-    const queue = this.db.data!.queues[queueId];
-    if (!queue) return [];
-    
-    return Object.values(queue.tasks);
+    return this.tasks.find({ queueId }).map(toTaskMetadata);
   }
 
   async updateTask(queueId: string, taskId: string, updates: Partial<Omit<TaskMetadata, 'id' | 'createdAt'>>): Promise<boolean> {
-    await this.mutex.acquire();
-    
-    try {
-      await this.ensureInitialized();
-      await this.db.read();
-      
-      const queue = this.db.data!.queues[queueId];
-      if (!queue || !queue.tasks[taskId]) return false;
-      
-      queue.tasks[taskId] = {
-        ...queue.tasks[taskId],
+    return this.storage.transaction(() => {
+      const queue = this.queues.get(queueId);
+      const task = this.tasks.get(`${queueId}/${taskId}`);
+      if (!queue || !task) return false;
+
+      const now = new Date().toISOString();
+      this.tasks.put({
+        ...task,
         ...updates,
-        updatedAt: new Date().toISOString()
-      };
-      
-      queue.updatedAt = new Date().toISOString();
-      
-      await this.db.write();
+        updatedAt: now
+      });
+      this.queues.put({ ...queue, updatedAt: now });
       return true;
-    } finally {
-      this.mutex.release();
-    }
+    });
   }
 
-  async deleteQueue(queueId: string): Promise<boolean> {
-    await this.mutex.acquire();
-    
-    try {
-      await this.ensureInitialized();
-      await this.db.read();
-      
-      const queue = this.db.data!.queues[queueId];
+  // Add model usage to a queue and, if given, one of its tasks
+  async addUsage(queueId: string, taskId: string | undefined, usage: UsageTotals): Promise<boolean> {
+    return this.storage.transaction(() => {
+      const queue = this.queues.get(queueId);
       if (!queue) return false;
-      
-      // Delete all task payloads
-      for (const task of Object.values(queue.tasks)) {
-        if ((task as any).payload) {
-          delete (task as any).payload;
-        }
+
+      this.queues.put({ ...queue, usage: addUsage(queue.usage, usage) });
+      const task = taskId ? this.tasks.get(`${queueId}/${taskId}`) : undefined;
+      if (task) {
+        this.tasks.put({ ...task, usage: addUsage(task.usage, usage) });
       }
-      
-      // Delete queue (this automatically deletes all nested tasks)
-      delete this.db.data!.queues[queueId];
-      
-      await this.db.write();
       return true;
-    } finally {
-      this.mutex.release();
-    }
+    });
+  }
+
+  // Deletes the queue with its tasks and their payloads
+  async deleteQueue(queueId: string): Promise<boolean> {
+    return this.storage.transaction(() => {
+      if (!this.queues.delete(queueId)) return false;
+      this.tasks.deleteWhere({ queueId });
+      return true;
+    });
   }
 
   // Helper method for backward compatibility - find task across all queues
   async findTaskInAnyQueue(taskId: string): Promise<{ queueId: string; task: TaskMetadata } | undefined> {
-    await this.ensureInitialized();
-    await this.db.read();
-    
-    for (const [queueId, queue] of Object.entries(this.db.data!.queues)) {
-      if (queue.tasks[taskId]) {
-        return { queueId, task: queue.tasks[taskId] };
-      }
-    }
-    
-    return undefined;
+    const [task] = this.tasks.find({ id: taskId }, { limit: 1 });
+    return task ? { queueId: task.queueId, task: toTaskMetadata(task) } : undefined;
   }
-} 
\ No newline at end of file
+}
@@ -7,18 +7,31 @@ import { IndicesAgentQueue } from './IndicesAgentQueue';
 import { ChangeOfStatementAgentQueue } from './ChangeOfStatementAgentQueue';
 import { IndicesDatabaseService } from '../indicesDatabaseService';
 import { AgentQueueDatabaseService } from './agentQueueDatabaseService';
+import { currentWorkspace } from '../workspaceContext';
 
 const router = express.Router();
 
-// In-memory map of queues by key (agentType:userQuery)
-const agentQueues: Record<string, AgentQueue> = {};
+// In-memory maps of queues by key (agentType:userQuery), one per workspace
+const workspaceQueues = new Map<string, Record<string, AgentQueue>>();
+
+function agentQueues(): Record<string, AgentQueue> {
+  const workspaceId = currentWorkspace().workspace.id;
+  let queues = workspaceQueues.get(workspaceId);
+  if (!queues) {
+    queues = {};
+    workspaceQueues.set(workspaceId, queues);
+  }
+  return queues;
+}
 const memoryDb = new MemoryDatabaseService();
 const indicesDb = new IndicesDatabaseService();
 const queueDb = new AgentQueueDatabaseService();
 
-// Helper function to load existing queues from database on startup
-async function loadExistingQueues() {
+// Load the active queues of the current workspace from the database, replacing those in memory;
+// called for every workspace on startup once migrations have been applied, and after a workspace import
+export async function loadExistingQueues() {
   try {
+    workspaceQueues.set(currentWorkspace().workspace.id, {});
     const allQueues = await queueDb.getAllQueues();
     console.log(`[AGENT SERVICE] Found ${allQueues.length} existing queues in database`);
     
@@ -40,7 +53,7 @@ async function loadExistingQueues() {
           
           // Generate a queue key (we'll use the queue ID as the key)
           const queueKey = queueMetadata.id;
-          agentQueues[queueKey] = agentQueue;
+          agentQueues()[queueKey] = agentQueue;
           
           console.log(`[AGENT SERVICE] Loaded queue: ${queueKey} (${queueMetadata.name})`);
         } catch (error) {
@@ -53,8 +66,44 @@ async function loadExistingQueues() {
   }
 }
 
-// Load existing queues on module initialization
-loadExistingQueues();
+export const AGENT_TYPES = ['indices', 'change_statement'] as const;
+export type AgentType = typeof AGENT_TYPES[number];
+
+export function isAgentType(value: unknown): value is AgentType {
+  return AGENT_TYPES.includes(value as AgentType);
+}
+
+/**
+ * Create an agent queue for the query, plan its tasks and start processing.
+ * Returns the queue key. Also used to re-run saved queries when new documents arrive.
+ */
+export async function startAgentRun(agentType: AgentType, userQuery: string): Promise<string> {
+  const queueKey = `${agentType}:${userQuery}`;
+
+  // Create the appropriate agent queue based on type
+  let agentQueue: IndicesAgentQueue | ChangeOfStatementAgentQueue;
+  if (agentType === 'indices') {
+    const memory = new Memory(`agent-indices-${Date.now()}`);
+    agentQueue = new IndicesAgentQueue(memory);
+    await agentQueue.initializeQueue(`Indices Agent - ${userQuery}`, 'indices');
+  } else {
+    const memory = new Memory(`agent-change-statement-${Date.now()}`);
+    agentQueue = new ChangeOfStatementAgentQueue(memory);
+    await agentQueue.initializeQueue(`Change of Statement Agent - ${userQuery}`, 'change_statement');
+  }
+
+  // Store the queue
+  agentQueues()[queueKey] = agentQueue;
+
+  // Initialize the agent
+  await agentQueue.initiate(userQuery);
+  await agentQueue.addTasks(userQuery);
+
+  // Start processing
+  await agentQueue.run();
+
+  return queueKey;
+}
 
 // POST /api/agent/start
 // Start an agent run (indices or change of statement)
@@ -63,38 +112,12 @@ router.post('/start', async (req, res) => {
   if (!agentType || !userQuery) {
     return res.status(400).json({ error: 'Missing agentType or userQuery' });
   }
+  if (!isAgentType(agentType)) {
+    return res.status(400).json({ error: 'Invalid agentType. Must be "indices" or "change_statement"' });
+  }
 
   try {
-    const queueKey = `${agentType}:${userQuery}`;
-    
-    // Create the appropriate agent queue based on type
-    let agentQueue: AgentQueue;
-    if (agentType === 'indices') {
-      const memory = new Memory(`agent-indices-${Date.now()}`);
-      agentQueue = new IndicesAgentQueue(memory);
-      await agentQueue.initializeQueue(`Indices Agent - ${userQuery}`, 'indices');
-    } else if (agentType === 'change_statement') {
-      const memory = new Memory(`agent-change-statement-${Date.now()}`);
-      agentQueue = new ChangeOfStatementAgentQueue(memory);
-      await agentQueue.initializeQueue(`Change of Statement Agent - ${userQuery}`, 'change_statement');
-    } else {
-      return res.status(400).json({ error: 'Invalid agentType. Must be "indices" or "change_statement"' });
-    }
-
-    // Store the queue
-    agentQueues[queueKey] = agentQueue;
-
-    // Initialize the agent
-    if (agentType === 'indices') {
-      await (agentQueue as IndicesAgentQueue).initiate(userQuery);
-      await (agentQueue as IndicesAgentQueue).addTasks(userQuery);
-    } else if (agentType === 'change_statement') {
-      await (agentQueue as ChangeOfStatementAgentQueue).initiate(userQuery);
-      await (agentQueue as ChangeOfStatementAgentQueue).addTasks(userQuery);
-    }
-
-    // Start processing
-    await agentQueue.process();
+    const queueKey = await startAgentRun(agentType, userQuery);
 
     res.json({ 
       taskId: queueKey, 
@@ -142,7 +165,10 @@ router.get('/queue', async (_req, res) => {
                 metadata: taskMeta.metadata,
                 resultPath: taskMeta.resultPath,
                 result: taskMeta.result,
-                error: taskMeta.error
+                error: taskMeta.error,
+                usage: taskMeta.usage,
+                attempts: taskMeta.attempts,
+                attemptHistory: taskMeta.attemptHistory
               };
             })
           );
@@ -189,7 +215,7 @@ router.get('/result/:queueKey/:taskId', async (req, res) => {
   
   try {
     // Try to get from in-memory queue first
-    const queue = agentQueues[queueKey];
+    const queue = agentQueues()[queueKey];
     if (queue) {
       const task = await queue.getTask(taskId);
       if (task) {
@@ -213,7 +239,10 @@ router.get('/result/:queueKey/:taskId', async (req, res) => {
       metadata: taskMeta.metadata,
       resultPath: taskMeta.resultPath,
       result: taskMeta.result,
-      error: taskMeta.error
+      error: taskMeta.error,
+      usage: taskMeta.usage,
+      attempts: taskMeta.attempts,
+      attemptHistory: taskMeta.attemptHistory
     };
     
     res.json({ result: task.result, task });
@@ -241,7 +270,7 @@ router.post('/check-finish/:queueKey', async (req, res) => {
   
   try {
     // Try to get from in-memory queue first
-    const queue = agentQueues[queueKey];
+    const queue = agentQueues()[queueKey];
     if (queue) {
       let isFinished = false;
       if (queue instanceof IndicesAgentQueue) {
@@ -322,7 +351,7 @@ router.delete('/queue/:queueKey', async (req, res) => {
     // Delete memory snapshots for this queue
     let deletedMemoryCount = 0;
     try {
-      const queue = agentQueues[queueKey];
+      const queue = agentQueues()[queueKey];
       if (queue) {
         const snapshots = await memoryDb.getSnapshots(queue['memory']['id']);
         deletedMemoryCount = snapshots.length;
@@ -343,8 +372,8 @@ router.delete('/queue/:queueKey', async (req, res) => {
     }
     
     // Remove the queue from memory if it exists
-    if (agentQueues[queueKey]) {
-      delete agentQueues[queueKey];
+    if (agentQueues()[queueKey]) {
+      delete agentQueues()[queueKey];
       console.log(`[AGENT SERVICE] Removed queue ${queueKey} from in-memory storage`);
     }
     
@@ -367,46 +396,87 @@ router.delete('/queue/:queueKey', async (req, res) => {
   }
 });
 
-// POST /api/agent/queue/:queueKey/restart/:taskId
-router.post('/queue/:queueKey/restart/:taskId', async (req, res) => {
-  const { queueKey, taskId } = req.params;
+// POST /api/agent/queue/:queueKey/cancel
+// Stop a running agent queue and mark its remaining tasks cancelled
+router.post('/queue/:queueKey/cancel', async (req, res) => {
+  const { queueKey } = req.params;
   try {
-    let queue = agentQueues[queueKey];
-    
-    // If queue is not found in memory, try to load it from database
+    // Queues started in this process are keyed by agent type and query, the UI uses queue ids
+    let queue = agentQueues()[queueKey] ?? Object.values(agentQueues()).find(q => q.getQueueId() === queueKey);
+
     if (!queue) {
-      console.log(`[AGENT SERVICE] Queue ${queueKey} not found in memory, attempting to load from database...`);
-      
       const queueMetadata = await queueDb.getQueue(queueKey);
       if (!queueMetadata) {
-        return res.status(404).json({ error: 'Queue not found in database.' });
+        return res.status(404).json({ error: 'Queue not found' });
       }
-      
-      if (queueMetadata.status !== 'active') {
-        return res.status(400).json({ error: `Queue is not active (status: ${queueMetadata.status})` });
-      }
-      
-      // Reconstruct the queue from database
-      const memory = new Memory(`agent-${queueMetadata.type}-${Date.now()}`);
-      
-      if (queueMetadata.type === 'indices') {
-        queue = new IndicesAgentQueue(memory, queueMetadata.id);
-      } else if (queueMetadata.type === 'change_statement') {
-        queue = new ChangeOfStatementAgentQueue(memory, queueMetadata.id);
-      } else {
-        queue = new AgentQueue(memory, queueMetadata.id);
-      }
-      
-      // Add to in-memory cache
-      agentQueues[queueKey] = queue;
-      console.log(`[AGENT SERVICE] Successfully loaded queue ${queueKey} from database`);
+      // Not running in this process, only its stored tasks need to be marked
+      queue = new AgentQueue(new Memory(`agent-${queueMetadata.type}-${Date.now()}`), queueMetadata.id);
+    }
+
+    const cancelledTasks = await queue.cancel();
+    res.json({ queueKey, cancelledTasks, message: `Cancelled ${cancelledTasks} tasks` });
+  } catch (error) {
+    console.error(`[AGENT SERVICE] Failed to cancel queue ${queueKey}:`, error);
+    res.status(500).json({ error: 'Failed to cancel queue', details: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+/**
+ * Restart a queue from one of its tasks, loading the queue from the database when it is not in
+ * memory. Returns the HTTP status and message when the queue cannot be restarted, e.g. while
+ * it is still running.
+ */
+export async function restartAgentTask(queueKey: string, taskId: string): Promise<{ status: number; error: string } | null> {
+  // Queues started in this process are keyed by agent type and query, the UI uses queue ids
+  let queue = agentQueues()[queueKey] ?? Object.values(agentQueues()).find(q => q.getQueueId() === queueKey);
+  
+  // If queue is not found in memory, try to load it from database
+  if (!queue) {
+    console.log(`[AGENT SERVICE] Queue ${queueKey} not found in memory, attempting to load from database...`);
+    
+    const queueMetadata = await queueDb.getQueue(queueKey);
+    if (!queueMetadata) {
+      return { status: 404, error: 'Queue not found in database.' };
     }
     
-    // Restart tasks from the specified one
-    await queue.restartFromTask(taskId);
+    if (queueMetadata.status !== 'active' && queueMetadata.status !== 'cancelled') {
+      return { status: 400, error: `Queue is not active (status: ${queueMetadata.status})` };
+    }
+    
+    // Reconstruct the queue from database
+    const memory = new Memory(`agent-${queueMetadata.type}-${Date.now()}`);
+    
+    if (queueMetadata.type === 'indices') {
+      queue = new IndicesAgentQueue(memory, queueMetadata.id);
+    } else if (queueMetadata.type === 'change_statement') {
+      queue = new ChangeOfStatementAgentQueue(memory, queueMetadata.id);
+    } else {
+      queue = new AgentQueue(memory, queueMetadata.id);
+    }
+    
+    // Add to in-memory cache
+    agentQueues()[queueKey] = queue;
+    console.log(`[AGENT SERVICE] Successfully loaded queue ${queueKey} from database`);
+  }
+  
+  const processing = (await queueDb.getQueueTasks(queue.getQueueId())).some(task => task.status === 'processing');
+  if (queue.isRunning() || processing) {
+    return { status: 409, error: 'Queue is still running; wait for it to finish or cancel it first' };
+  }
 
-    // Immediately start processing the queue again
-    queue.process();
+  // Restart tasks from the specified one and start processing the queue again
+  await queue.restart(taskId);
+  return null;
+}
+
+// POST /api/agent/queue/:queueKey/restart/:taskId
+router.post('/queue/:queueKey/restart/:taskId', async (req, res) => {
+  const { queueKey, taskId } = req.params;
+  try {
+    const failure = await restartAgentTask(queueKey, taskId);
+    if (failure) {
+      return res.status(failure.status).json({ error: failure.error });
+    }
     
     res.json({ success: true, message: `Queue ${queueKey} restarted from task ${taskId}` });
   } catch (error) {
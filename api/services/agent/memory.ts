@@ -1,4 +1,3 @@
-import OpenAI from 'openai';
 import { MemoryDatabaseService } from './memoryDatabaseService';
 import { callReasoningModel } from '../ModelUtils';
 
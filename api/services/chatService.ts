@@ -1,86 +1,355 @@
 import express from 'express';
+import { PDFTask } from '../types';
 import { ChatDatabaseService, ChatMessage } from './chatDatabaseService';
-import { callReasoningModel } from './ModelUtils';
+import { DatabaseService } from './databaseService';
+import { ChatToolCall, ChatTools } from './chatTools';
+import { Citation, Passage, citePassage, retrievePassages } from './documentRetrieval';
+import { OpenAIResponse, callReasoningModel, extractJsonFromResponse, runInModelLane, streamReasoningModel } from './ModelUtils';
+import { TextIndexService } from './textIndexService';
+import { toUsageTotals } from './usageService';
 
 const router = express.Router();
 
+// Separates a grounded answer from its citations, so the answer can be streamed on its own
+const CITATIONS_MARKER = '---CITATIONS---';
+
+const DOCUMENT_INSTRUCTIONS = `Answer from the numbered document passages given with the message. Refer to the passages you use by their number in brackets, e.g. [1]. If the passages do not contain the answer, say so instead of guessing.
+
+After the answer, write a line containing only ${CITATIONS_MARKER} followed by a JSON array of the passages you used:
+[{"source": 1, "quote": "sentence copied exactly from passage 1"}]`;
+
+// Tools are described after this, one per line
+const TOOL_INSTRUCTIONS = `You can look up the platform's data with these read-only tools:`;
+
+const TOOL_CALL_INSTRUCTIONS = `To call a tool, reply with only a JSON object such as {"tool": "get_index_series", "arguments": {"indexName": "Hawkishness"}}. Its result is added to the message under "Tool results" and you are asked again, so call one tool at a time and answer in plain text once you have what you need. Only call tools when the answer depends on data you do not have.`;
+
+// Answer when the model keeps calling tools past CHAT_MAX_TOOL_CALLS
+const TOOL_LIMIT_ANSWER = "I couldn't finish looking up the data for this question. Please try asking for less at once.";
+
+export interface ChatReply {
+  id: string;
+  content: string;
+  timestamp: Date;
+  sessionId: string;
+  citations: Citation[];
+  toolCalls: ChatToolCall[];
+  interrupted?: boolean;
+}
+
+// Receive the answer while it is generated, and the tools called for it
+export interface ChatStreamHandlers {
+  onText: (delta: string) => void;
+  onToolCall: (call: ChatToolCall) => void;
+}
+
+// Prompts for the model, built once the user's message is saved
+interface PreparedMessage {
+  systemPrompt: string;
+  userPrompt: string;
+  passages: Passage[];
+}
+
+// A reply that is only a JSON object naming a tool is a tool call
+function parseToolCall(text: string): { tool: string; arguments: Record<string, unknown> } | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('`')) return null;
+  try {
+    const parsed = JSON.parse(extractJsonFromResponse(trimmed));
+    if (typeof parsed?.tool !== 'string') return null;
+    const args = parsed.arguments && typeof parsed.arguments === 'object' && !Array.isArray(parsed.arguments) ? parsed.arguments : {};
+    return { tool: parsed.tool, arguments: args };
+  } catch {
+    return null;
+  }
+}
+
 export class ChatService {
   private chatDb: ChatDatabaseService;
+  private documents: DatabaseService;
+  private tools: ChatTools;
+  private maxToolCalls = parseInt(process.env.CHAT_MAX_TOOL_CALLS || '5', 10);
 
-  constructor() {
+  constructor(textIndexService: TextIndexService) {
     this.chatDb = new ChatDatabaseService();
+    this.documents = new DatabaseService();
+    this.tools = new ChatTools(textIndexService);
+  }
+
+  /**
+   * Answer a message. Documents mentioned with @filename, or all of them with @all, are searched
+   * for passages relevant to the message; the answer is grounded in those passages and comes
+   * back with citations. `mentions` may name documents the text does not spell out.
+   */
+  async processMessage(content: string, sessionId: string, mentions: string[] = []): Promise<ChatReply> {
+    try {
+      const prepared = await this.prepareMessage(content, sessionId, mentions);
+      const toolCalls: ChatToolCall[] = [];
+      const response = await this.converse(sessionId, prepared, toolCalls);
+      return await this.saveReply(sessionId, response, prepared.passages, toolCalls);
+    } catch (error) {
+      console.error('[CHAT SERVICE] Error processing message:', error);
+      throw new Error('Failed to process chat message');
+    }
   }
 
-  async processMessage(content: string, sessionId: string): Promise<{
-    id: string;
-    content: string;
-    timestamp: Date;
-    sessionId: string;
-  }> {
+  /**
+   * Answer a message like processMessage, passing the answer to onText while it is generated
+   * and each tool call to onToolCall once it has run. Citations are only known at the end and
+   * come with the returned reply, whose content replaces the streamed text. When the signal
+   * aborts, e.g. because the client went away, the part of the answer received so far is saved
+   * as the reply.
+   */
+  async streamMessage(
+    content: string,
+    sessionId: string,
+    mentions: string[],
+    handlers: ChatStreamHandlers,
+    signal: AbortSignal
+  ): Promise<ChatReply> {
     try {
-      // Save user message to database
-      const userMessage: ChatMessage = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        content,
-        isUser: true,
-        timestamp: new Date(),
-        sessionId
+      const prepared = await this.prepareMessage(content, sessionId, mentions);
+      const toolCalls: ChatToolCall[] = [];
+
+      // The citations after the marker are not shown; text that may be the start of the marker is held back
+      let received = '';
+      let sent = 0;
+      const forward = (delta: string) => {
+        received += delta;
+        const markerAt = received.indexOf(CITATIONS_MARKER);
+        const visible = markerAt >= 0
+          ? markerAt
+          : prepared.passages.length > 0 ? received.length - (CITATIONS_MARKER.length - 1) : received.length;
+        if (visible > sent) {
+          handlers.onText(received.slice(sent, visible));
+          sent = visible;
+        }
       };
 
-      await this.chatDb.addMessage(userMessage);
+      try {
+        const response = await this.converse(sessionId, prepared, toolCalls, { ...handlers, onText: forward }, signal);
+        return await this.saveReply(sessionId, response, prepared.passages, toolCalls);
+      } catch (error) {
+        if (!signal.aborted) throw error;
+        console.log(`[CHAT SERVICE] Stream aborted after ${received.length} characters, saving the partial answer`);
+        return await this.saveReply(sessionId, { text: received, success: received.trim().length > 0 }, prepared.passages, toolCalls, true);
+      }
+    } catch (error) {
+      console.error('[CHAT SERVICE] Error streaming message:', error);
+      throw new Error('Failed to process chat message');
+    }
+  }
+
+  /**
+   * Ask the model until it answers rather than calling a tool. Tools it calls are run, added to
+   * toolCalls and their results appended to the prompt for the next round. When streaming, only
+   * the answer reaches onText: a response starting like JSON may be a tool call and is held
+   * back until it is complete.
+   */
+  private async converse(
+    sessionId: string,
+    prepared: PreparedMessage,
+    toolCalls: ChatToolCall[],
+    handlers?: ChatStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<OpenAIResponse> {
+    const results: string[] = [];
+    for (;;) {
+      const limitReached = toolCalls.length >= this.maxToolCalls;
+      const userPrompt = results.length > 0
+        ? `${prepared.userPrompt}\n\nTool results:\n${results.join('\n\n')}${limitReached ? '\n\nNo more tool calls are possible, answer with these results.' : ''}`
+        : prepared.userPrompt;
+
+      let roundText = '';
+      let held: boolean | undefined;
+      const onText = handlers && ((delta: string) => {
+        roundText += delta;
+        if (held === undefined) {
+          const start = roundText.trimStart();
+          if (!start) return;
+          held = start.startsWith('{') || start.startsWith('`');
+          if (!held) handlers.onText(roundText);
+        } else if (!held) {
+          handlers.onText(delta);
+        }
+      });
 
-      // Get recent message history for context
-      const recentMessages = await this.chatDb.getMessages(sessionId, 10);
-      
-      // Create context from recent messages
-      const context = recentMessages
-        .filter(msg => msg.id !== userMessage.id) // Exclude the current message
-        .map(msg => `${msg.isUser ? 'User' : 'Assistant'}: ${msg.content}`)
-        .join('\n');
+      // Call the model using centralized utility, ahead of queued batch work
+      const response = await runInModelLane('interactive', () => onText
+        ? streamReasoningModel(prepared.systemPrompt, userPrompt, onText, '[CHAT SERVICE]', signal)
+        : callReasoningModel(prepared.systemPrompt, userPrompt, '[CHAT SERVICE]', signal)
+      );
+      if (response.usage) {
+        await this.chatDb.addSessionUsage(sessionId, toUsageTotals(response.usage));
+      }
 
-      // Create system prompt
-      const systemPrompt = `You are a helpful AI assistant for a document analysis platform. You help users with:
+      const call = response.success ? parseToolCall(response.text) : null;
+      if (call && !limitReached) {
+        const { call: record, output } = await this.tools.run(call.tool, call.arguments);
+        toolCalls.push(record);
+        handlers?.onToolCall(record);
+        results.push(`${toolCalls.length}. ${call.tool} ${JSON.stringify(call.arguments)}\n${output}`);
+        continue;
+      }
+
+      const answer = call ? { ...response, text: TOOL_LIMIT_ANSWER } : response;
+      if (held && answer.success) {
+        handlers?.onText(answer.text);
+      }
+      return answer;
+    }
+  }
+
+  // Save the user's message and build the prompts from the conversation and the mentioned documents
+  private async prepareMessage(content: string, sessionId: string, mentions: string[]): Promise<PreparedMessage> {
+    const mentionedTasks = await this.resolveMentions(content, mentions);
+
+    // Save user message to database
+    const userMessage: ChatMessage = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      content,
+      isUser: true,
+      timestamp: new Date(),
+      mentions: mentionedTasks.map(task => task.filename),
+      sessionId
+    };
+
+    await this.chatDb.addMessage(userMessage);
+
+    // Get recent message history for context
+    const recentMessages = await this.chatDb.getMessages(sessionId, 10);
+    
+    // Create context from recent messages, oldest first
+    const context = recentMessages
+      .filter(msg => msg.id !== userMessage.id) // Exclude the current message
+      .reverse()
+      .map(msg => `${msg.isUser ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n');
+
+    const passages = mentionedTasks.length > 0 ? await retrievePassages(content, mentionedTasks) : [];
+    if (mentionedTasks.length > 0) {
+      console.log(`[CHAT SERVICE] Retrieved ${passages.length} passages from ${mentionedTasks.length} documents`);
+    }
+
+    // Create system prompt
+    const systemPrompt = `You are a helpful AI assistant for a document analysis platform. You help users with:
 - Understanding document content and analysis results
 - Interpreting data visualizations and timelines
 - Providing insights about document relationships
 - Answering questions about the platform features
 
-Keep responses concise but informative. Use the conversation context to provide relevant follow-up suggestions.`;
+Keep responses concise but informative. Use the conversation context to provide relevant follow-up suggestions.
 
-      // Create user prompt with context
-      const userPrompt = context 
-        ? `Previous conversation:\n${context}\n\nCurrent message: ${content}`
-        : content;
+${TOOL_INSTRUCTIONS}
+${this.tools.describe()}
 
-      // Call OpenAI API using centralized utility
-      const response = await callReasoningModel(systemPrompt, userPrompt, '[CHAT SERVICE]');
+${TOOL_CALL_INSTRUCTIONS}${passages.length > 0 ? `\n\n${DOCUMENT_INSTRUCTIONS}` : ''}`;
 
-      const responseText = response.success 
-        ? (response.text || "I apologize, but I couldn't generate a response.")
-        : "I apologize, but I encountered an error while processing your request.";
+    // Create user prompt with context
+    const documentContext = passages.length > 0
+      ? `Document passages:\n${passages.map((passage, i) => `[${i + 1}] ${passage.filename}${passage.page ? `, page ${passage.page}` : ''}\n${passage.text}`).join('\n\n')}\n\n`
+      : '';
+    const userPrompt = context 
+      ? `${documentContext}Previous conversation:\n${context}\n\nCurrent message: ${content}`
+      : `${documentContext}${content}`;
 
-      // Save AI response to database
-      const aiMessage: ChatMessage = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        content: responseText,
-        isUser: false,
-        timestamp: new Date(),
-        sessionId
-      };
+    return { systemPrompt, userPrompt, passages };
+  }
 
-      await this.chatDb.addMessage(aiMessage);
+  // Turn the model's response into the assistant's reply and save it
+  private async saveReply(
+    sessionId: string,
+    response: OpenAIResponse,
+    passages: Passage[],
+    toolCalls: ChatToolCall[],
+    interrupted: boolean = false
+  ): Promise<ChatReply> {
+    let responseText = response.success 
+      ? (response.text || "I apologize, but I couldn't generate a response.")
+      : interrupted ? '' : "I apologize, but I encountered an error while processing your request.";
+    let citations: Citation[] = [];
+    if (response.success && passages.length > 0) {
+      ({ answer: responseText, citations } = this.parseGroundedAnswer(responseText, passages));
+    }
 
-      return {
-        id: aiMessage.id,
-        content: responseText,
-        timestamp: aiMessage.timestamp,
-        sessionId
-      };
+    // Save AI response to database
+    const aiMessage: ChatMessage = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      content: responseText,
+      isUser: false,
+      timestamp: new Date(),
+      citations,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(interrupted && { interrupted }),
+      sessionId
+    };
 
-    } catch (error) {
-      console.error('[CHAT SERVICE] Error processing message:', error);
-      throw new Error('Failed to process chat message');
+    await this.chatDb.addMessage(aiMessage);
+
+    return {
+      id: aiMessage.id,
+      content: responseText,
+      timestamp: aiMessage.timestamp,
+      sessionId,
+      citations,
+      toolCalls,
+      ...(interrupted && { interrupted })
+    };
+  }
+
+  // Completed documents referred to with @filename or @all
+  private async resolveMentions(content: string, mentions: string[]): Promise<PDFTask[]> {
+    const tasks = (await this.documents.getAllTasks())
+      .filter(task => task.status === 'completed' && task.result?.extractedTextPath);
+    if (mentions.includes('@all') || /(^|\s)@all\b/.test(content)) {
+      return tasks;
     }
+    return tasks.filter(task => mentions.includes(task.filename) || content.includes(`@${task.filename}`));
+  }
+
+  // The answer and its citations; without a citation list the passages referred to as [n] are cited
+  private parseGroundedAnswer(text: string, passages: Passage[]): { answer: string; citations: Citation[] } {
+    const passageAt = (source: unknown) =>
+      typeof source === 'number' && Number.isInteger(source) ? passages[source - 1] : undefined;
+
+    const markerAt = text.indexOf(CITATIONS_MARKER);
+    let answer = (markerAt >= 0 ? text.slice(0, markerAt) : text).trim();
+    let cited: { passage: Passage; quote?: string }[] = [];
+    try {
+      if (markerAt < 0) throw new Error('No citations in the response');
+      const parsed = JSON.parse(extractJsonFromResponse(text.slice(markerAt + CITATIONS_MARKER.length)));
+      cited = (Array.isArray(parsed) ? parsed : []).flatMap((citation: { source?: unknown; quote?: unknown }) => {
+        const passage = passageAt(citation?.source);
+        return passage ? [{ passage, quote: typeof citation?.quote === 'string' ? citation.quote : undefined }] : [];
+      });
+    } catch {
+      console.warn('[CHAT SERVICE] Response has no readable citation list, citing the passages it refers to');
+    }
+
+    // Passages referred to in the answer but not listed as citations are cited too
+    for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+      const passage = passageAt(parseInt(match[1], 10));
+      if (passage && !cited.some(citation => citation.passage === passage)) {
+        cited.push({ passage });
+      }
+    }
+
+    const citations: Citation[] = [];
+    const numbers = new Map<Passage, number>();
+    for (const { passage, quote } of cited) {
+      const citation = citePassage(passage, quote);
+      let index = citations.findIndex(c => c.taskId === citation.taskId && c.quote === citation.quote);
+      if (index < 0) {
+        index = citations.push(citation) - 1;
+      }
+      if (!numbers.has(passage)) numbers.set(passage, index + 1);
+    }
+
+    // References in the answer point at passages; renumber them to the citations shown with it
+    answer = answer.replace(/\[(\d+)\]/g, (reference, source) => {
+      const passage = passageAt(parseInt(source, 10));
+      return passage && numbers.has(passage) ? `[${numbers.get(passage)}]` : reference;
+    });
+    return { answer, citations };
   }
 
   async getMessageHistory(sessionId: string, limit?: number): Promise<ChatMessage[]> {
@@ -0,0 +1,250 @@
+import fs from 'fs/promises';
+import { DatabaseService } from './databaseService';
+import { IndicesDatabaseService } from './indicesDatabaseService';
+import { isValidArticleFilename, listResearchArticleFiles, parseResearchArticle, researchArticlePath } from './researchArticles';
+import { TextIndexService } from './textIndexService';
+import { parseTextQuery } from './textQuery';
+
+// What a tool found: data for the model and a one-line summary for the chat
+interface ToolResult {
+  summary: string;
+  data: unknown;
+}
+
+// A read-only lookup the chat model can call while answering
+interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Record<string, string>; // Argument name -> description
+  run(args: Record<string, unknown>): Promise<ToolResult>;
+}
+
+// A tool call made while answering, kept with the reply
+export interface ChatToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+  summary?: string;
+  error?: string;
+}
+
+// Longest research article text handed to the model
+const ARTICLE_CHARS = 12000;
+
+const stringArg = (args: Record<string, unknown>, name: string): string | undefined =>
+  typeof args[name] === 'string' && (args[name] as string).trim() ? (args[name] as string).trim() : undefined;
+
+const numberArg = (args: Record<string, unknown>, name: string, fallback: number, max: number): number =>
+  typeof args[name] === 'number' && (args[name] as number) > 0 ? Math.min(Math.floor(args[name] as number), max) : fallback;
+
+/**
+ * Read-only tools over the data of the current workspace: documents and their summaries,
+ * index series, research articles and the keyword index. The chat model asks for them by
+ * name; failures are returned to the model as errors rather than thrown.
+ */
+export class ChatTools {
+  private documents = new DatabaseService();
+  private indices = new IndicesDatabaseService();
+  private resultChars = parseInt(process.env.CHAT_TOOL_RESULT_CHARS || '8000', 10);
+  private tools: ChatTool[];
+
+  constructor(private textIndexService: TextIndexService) {
+    this.tools = [
+      {
+        name: 'list_documents',
+        description: 'Documents of the workspace with their status, date and page count',
+        parameters: { status: 'Optional: only documents with this status (pending, processing, completed, failed, cancelled)' },
+        run: args => this.listDocuments(args)
+      },
+      {
+        name: 'get_task_summary',
+        description: 'Summary, key points and date of one processed document',
+        parameters: { document: 'Task id or filename of the document' },
+        run: args => this.getTaskSummary(args)
+      },
+      {
+        name: 'get_index_series',
+        description: 'Scores of an index over time, one per scored document, oldest first. Unknown names return the available index names',
+        parameters: {
+          indexName: 'Name of the index, e.g. Hawkishness',
+          from: 'Optional: first date to include, e.g. 2024-01',
+          to: 'Optional: last date to include, e.g. 2024-03'
+        },
+        run: args => this.getIndexSeries(args)
+      },
+      {
+        name: 'get_research_article',
+        description: 'Text of a generated research article; without a filename, the list of articles',
+        parameters: { filename: 'Optional: article filename, from the list' },
+        run: args => this.getResearchArticle(args)
+      },
+      {
+        name: 'search_text',
+        description: 'Keyword search over the text of all documents, with the matching passages and pages',
+        parameters: {
+          query: 'Words that must all occur; "quoted phrases", OR, NOT and parentheses are supported',
+          limit: 'Optional: number of documents, default 5'
+        },
+        run: args => this.searchText(args)
+      }
+    ];
+  }
+
+  // The tools as listed in the system prompt
+  describe(): string {
+    return this.tools
+      .map(tool => `- ${tool.name}: ${tool.description}. Arguments: ${
+        Object.keys(tool.parameters).length > 0 ? JSON.stringify(tool.parameters) : 'none'
+      }`)
+      .join('\n');
+  }
+
+  // Run a tool; output is the result as shown to the model, shortened to CHAT_TOOL_RESULT_CHARS
+  async run(name: string, args: Record<string, unknown>): Promise<{ call: ChatToolCall; output: string }> {
+    const tool = this.tools.find(t => t.name === name);
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool ${name}. Available tools: ${this.tools.map(t => t.name).join(', ')}`);
+      }
+      const result = await tool.run(args);
+      const output = JSON.stringify(result.data);
+      console.log(`[CHAT TOOLS] ${name} ${JSON.stringify(args)}: ${result.summary}`);
+      return {
+        call: { tool: name, arguments: args, summary: result.summary },
+        output: output.length > this.resultChars ? `${output.slice(0, this.resultChars)}... (truncated)` : output
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[CHAT TOOLS] ${name} ${JSON.stringify(args)} failed: ${message}`);
+      return { call: { tool: name, arguments: args, error: message }, output: `Error: ${message}` };
+    }
+  }
+
+  private async listDocuments(args: Record<string, unknown>): Promise<ToolResult> {
+    const status = stringArg(args, 'status');
+    const tasks = (await this.documents.getAllTasks()).filter(task => !status || task.status === status);
+    return {
+      summary: `${tasks.length} ${tasks.length === 1 ? 'document' : 'documents'}`,
+      data: tasks.map(task => ({
+        taskId: task.id,
+        filename: task.filename,
+        status: task.status,
+        date: task.TimeStamp,
+        pageCount: task.result?.pageCount
+      }))
+    };
+  }
+
+  private async getTaskSummary(args: Record<string, unknown>): Promise<ToolResult> {
+    const document = stringArg(args, 'document');
+    if (!document) {
+      throw new Error('document is required');
+    }
+    const tasks = await this.documents.getAllTasks();
+    const task = tasks.find(t => t.id === document || t.filename === document)
+      || tasks.find(t => t.filename.toLowerCase().includes(document.toLowerCase()));
+    if (!task) {
+      throw new Error(`No document matches ${document}`);
+    }
+    if (!task.result) {
+      return { summary: `${task.filename} is ${task.status}`, data: { taskId: task.id, filename: task.filename, status: task.status } };
+    }
+
+    // The summary is stored as the JSON the summarizer returned
+    let summary: unknown = task.result.summary;
+    try {
+      summary = JSON.parse(task.result.summary);
+    } catch {
+      // Older results keep the summary as plain text
+    }
+    return {
+      summary: `Summary of ${task.filename}`,
+      data: {
+        taskId: task.id,
+        filename: task.filename,
+        status: task.status,
+        date: task.TimeStamp,
+        pageCount: task.result.pageCount,
+        summary
+      }
+    };
+  }
+
+  private async getIndexSeries(args: Record<string, unknown>): Promise<ToolResult> {
+    const requested = stringArg(args, 'indexName');
+    const names = await this.indices.getUniqueIndexNames();
+    const indexName = requested && names.find(name => name.toLowerCase() === requested.toLowerCase());
+    if (!indexName) {
+      return {
+        summary: `No index named ${requested || '(none)'}`,
+        data: { error: `No index named ${requested || '(none)'}`, availableIndexNames: names }
+      };
+    }
+
+    // Dates are compared as text, so from and to may be a year, a month or a day
+    const from = stringArg(args, 'from');
+    const to = stringArg(args, 'to');
+    const series = (await this.indices.getIndicesByName(indexName))
+      .map(entry => ({
+        date: entry.taskInfo.timestamp || entry.taskInfo.createdAt,
+        score: entry.scoreValue,
+        filename: entry.taskInfo.filename,
+        rationale: entry.rational
+      }))
+      .filter(point => (!from || point.date >= from) && (!to || point.date.slice(0, to.length) <= to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      summary: `${series.length} ${indexName} ${series.length === 1 ? 'score' : 'scores'}`,
+      data: { indexName, series }
+    };
+  }
+
+  private async getResearchArticle(args: Record<string, unknown>): Promise<ToolResult> {
+    const filename = stringArg(args, 'filename');
+    if (!filename) {
+      const files = await listResearchArticleFiles();
+      const articles = await Promise.all(files.map(async file => {
+        const { metadata } = parseResearchArticle(file, await fs.readFile(researchArticlePath(file), 'utf-8'));
+        return { filename: file, title: metadata.title || file.replace('.md', ''), generated: metadata.generated };
+      }));
+      return { summary: `${articles.length} research ${articles.length === 1 ? 'article' : 'articles'}`, data: articles };
+    }
+
+    if (!isValidArticleFilename(filename)) {
+      throw new Error(`Invalid article filename ${filename}`);
+    }
+    let raw: string;
+    try {
+      raw = await fs.readFile(researchArticlePath(filename), 'utf-8');
+    } catch {
+      throw new Error(`No research article named ${filename}`);
+    }
+    const { metadata, content } = parseResearchArticle(filename, raw);
+    return {
+      summary: `Article ${metadata.title || filename}`,
+      data: { filename, metadata, content: content.slice(0, ARTICLE_CHARS) }
+    };
+  }
+
+  private async searchText(args: Record<string, unknown>): Promise<ToolResult> {
+    const query = stringArg(args, 'query');
+    if (!query) {
+      throw new Error('query is required');
+    }
+    const { total, results } = await this.textIndexService.search(parseTextQuery(query), {
+      limit: numberArg(args, 'limit', 5, 20),
+      hitsPerDocument: 3
+    });
+    return {
+      summary: `${total} ${total === 1 ? 'document' : 'documents'} match ${query}`,
+      data: {
+        total,
+        results: results.map(result => ({
+          taskId: result.taskId,
+          filename: result.filename,
+          hitCount: result.hitCount,
+          hits: result.hits.map(hit => ({ page: hit.page, snippet: hit.snippet }))
+        }))
+      }
+    };
+  }
+}
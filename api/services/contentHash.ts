@@ -0,0 +1,13 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+// SHA-256 of a file's content, streamed so large uploads are not read into memory
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
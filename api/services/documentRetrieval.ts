@@ -0,0 +1,139 @@
+import fs from 'fs/promises';
+import { PDFTask } from '../types';
+import { splitIntoChunks } from './textChunker';
+
+// A piece of a document's extracted text that is given to the model
+export interface Passage {
+  taskId: string;
+  filename: string;
+  text: string;
+  page: number | null; // Page the passage starts on, for documents with a page map
+  score: number;
+}
+
+// Where a statement of a chat answer comes from
+export interface Citation {
+  taskId: string;
+  filename: string;
+  quote: string;
+  page: number | null;
+}
+
+const CONTENT_START = '## Extracted Content\n\n';
+const CONTENT_END = '\n\n---\n*This file was automatically generated';
+
+// Words that match nearly every passage and say nothing about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'how', 'why', 'when', 'where',
+  'this', 'that', 'these', 'those', 'with', 'from', 'about', 'into', 'does', 'did', 'has', 'have',
+  'had', 'can', 'could', 'would', 'should', 'will', 'not', 'any', 'all', 'its', 'our', 'their',
+  'they', 'them', 'you', 'your', 'there', 'than', 'then', 'also', 'some', 'more', 'most', 'document',
+  'documents', 'please', 'tell'
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+// The document text of an extracted markdown file, without the header and footer written by PdfProcessor
+export function extractedContent(markdown: string): { text: string; offset: number } {
+  const start = markdown.indexOf(CONTENT_START);
+  const offset = start >= 0 ? start + CONTENT_START.length : 0;
+  const end = markdown.indexOf(CONTENT_END, offset);
+  return { text: markdown.slice(offset, end >= 0 ? end : undefined), offset };
+}
+
+// Page of the document an offset into its extracted markdown falls on
+export function pageAt(task: PDFTask, offset: number): number | null {
+  const entry = task.result?.pageMap?.find(page => offset >= page.startOffset && offset < page.endOffset);
+  return entry ? entry.page : null;
+}
+
+/**
+ * Passages of the documents that best match the query, ranked with BM25 over all their chunks.
+ * Every document keeps at least its best passage, so a question about a mentioned document is
+ * answered from it even when few words match; when nothing matches, documents are represented
+ * by their opening passage. Tasks without extracted text are skipped.
+ */
+export async function retrievePassages(query: string, tasks: PDFTask[]): Promise<Passage[]> {
+  const maxPassages = parseInt(process.env.CHAT_MAX_PASSAGES || '8', 10);
+  const passageChars = parseInt(process.env.CHAT_PASSAGE_CHARS || '1200', 10);
+
+  const candidates: (Passage & { terms: string[] })[] = [];
+  for (const task of tasks) {
+    if (!task.result?.extractedTextPath) continue;
+    let markdown: string;
+    try {
+      markdown = await fs.readFile(task.result.extractedTextPath, 'utf8');
+    } catch (error) {
+      console.warn(`[RETRIEVAL] Extracted text of ${task.filename} is missing:`, error);
+      continue;
+    }
+
+    const content = extractedContent(markdown);
+    for (const chunk of splitIntoChunks(content.text, passageChars)) {
+      candidates.push({
+        taskId: task.id,
+        filename: task.filename,
+        text: chunk.text.trim(),
+        page: pageAt(task, content.offset + chunk.startOffset),
+        score: 0,
+        terms: tokenize(chunk.text)
+      });
+    }
+  }
+  if (candidates.length === 0) return [];
+
+  // BM25 with the usual k1 = 1.2, b = 0.75
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const averageLength = candidates.reduce((sum, c) => sum + c.terms.length, 0) / candidates.length || 1;
+  for (const term of queryTerms) {
+    const containing = candidates.filter(c => c.terms.includes(term)).length;
+    if (containing === 0) continue;
+    const idf = Math.log(1 + (candidates.length - containing + 0.5) / (containing + 0.5));
+    for (const candidate of candidates) {
+      const frequency = candidate.terms.filter(t => t === term).length;
+      if (frequency === 0) continue;
+      const norm = 1.2 * (1 - 0.75 + 0.75 * candidate.terms.length / averageLength);
+      candidate.score += idf * (frequency * 2.2) / (frequency + norm);
+    }
+  }
+
+  // Candidates are in document order, so a stable sort keeps the opening passage first on ties
+  const ranked = [...candidates].sort((a, b) => b.score - a.score);
+  const selected = new Set<typeof candidates[number]>();
+  for (const task of tasks) {
+    const best = ranked.find(c => c.taskId === task.id);
+    if (best && selected.size < maxPassages) selected.add(best);
+  }
+  for (const candidate of ranked) {
+    if (selected.size >= maxPassages) break;
+    if (candidate.score > 0) selected.add(candidate);
+  }
+
+  return [...selected]
+    .sort((a, b) => b.score - a.score)
+    .map(({ terms, ...passage }) => passage);
+}
+
+const normalizeForMatch = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Citation of a passage. The quote is kept when it really occurs in the passage; models
+ * paraphrase, so otherwise the opening sentence of the passage is quoted instead.
+ */
+export function citePassage(passage: Passage, quote?: string): Citation {
+  // A quote of only punctuation ("...") normalizes to nothing, which every passage would include
+  const normalized = typeof quote === 'string' ? normalizeForMatch(quote) : '';
+  const found = normalized !== '' && normalizeForMatch(passage.text).includes(normalized);
+  const opening = passage.text.replace(/^#+ .*\n+/gm, '').match(/^[\s\S]*?[.!?](\s|$)/)?.[0] || passage.text;
+  return {
+    taskId: passage.taskId,
+    filename: passage.filename,
+    quote: found ? quote!.trim() : opening.trim().slice(0, 300),
+    page: passage.page
+  };
+}
@@ -0,0 +1,212 @@
+import async from 'async';
+import fs from 'fs/promises';
+import { PDFTask } from '../types';
+import { DatabaseService } from './databaseService';
+import { extractedContent, pageAt } from './documentRetrieval';
+import { embeddingModelId, getEmbedder } from './embeddings/embedder';
+import { subscribeToEvents } from './eventService';
+import { splitIntoChunks } from './textChunker';
+import { Storage, getStorage } from './storage/storage';
+import { embeddedChunks } from './storage/collections';
+import { WorkspaceContext, currentWorkspace, getWorkspaceContext, runInWorkspace } from './workspaceContext';
+
+// A chunk of a document's extracted text with its embedding
+export interface EmbeddedChunk {
+  id: string; // <taskId>/<chunkIndex>
+  taskId: string;
+  filename: string;
+  chunkIndex: number;
+  text: string;
+  page: number | null;
+  startOffset: number; // Character offsets into the extracted markdown
+  endOffset: number;
+  model: string; // Embedder and model the vector was computed with
+  vector: string; // Float32 values, base64
+}
+
+export interface SearchResult {
+  taskId: string;
+  filename: string;
+  chunkIndex: number;
+  page: number | null;
+  text: string;
+  score: number; // Cosine similarity to the query
+}
+
+// A document waiting to be embedded, with the workspace it belongs to
+interface IndexJob {
+  taskId: string;
+  workspace: WorkspaceContext;
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  // Copied, since a decoded Buffer may not be aligned for a Float32Array view
+  return new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer);
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  const norm = Math.sqrt(result.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return result.map(value => value / norm);
+}
+
+/**
+ * Semantic index over the extracted texts. Documents are split into chunks and embedded once
+ * their processing completes; search embeds the query and ranks all chunks by cosine similarity.
+ * Vectors are kept in the workspace's database, tagged with the model that computed them, so
+ * changing EMBEDDING_PROVIDER or EMBEDDING_MODEL re-embeds the documents on the next startup.
+ */
+export class EmbeddingService {
+  private queue: async.QueueObject<IndexJob>;
+  private databaseService = new DatabaseService();
+  private chunkChars = parseInt(process.env.EMBEDDING_CHUNK_CHARS || '1000', 10);
+  private batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '32', 10);
+
+  constructor() {
+    // One document at a time: the local model keeps a CPU core busy while it embeds
+    this.queue = async.queue(({ taskId, workspace }: IndexJob, callback) => {
+      runInWorkspace(workspace, () => this.indexTask(taskId))
+        .then(() => callback())
+        .catch(err => callback(err));
+    }, 1);
+    this.queue.error((error, job) => {
+      console.error(`[EMBEDDINGS] Failed to index task ${job.taskId}:`, error);
+    });
+  }
+
+  private get storage(): Storage {
+    return getStorage();
+  }
+
+  /**
+   * Index documents as they complete and drop the chunks of removed ones. Events are published
+   * in the task's workspace, which the job is queued with.
+   */
+  start(): void {
+    subscribeToEvents(event => {
+      if (event.type !== 'task') return;
+      const workspace = getWorkspaceContext(event.workspaceId);
+      if (!workspace) return;
+      if (event.status === 'completed') {
+        this.queue.push({ taskId: event.taskId, workspace });
+      } else if (event.status === 'removed') {
+        runInWorkspace(workspace, () => embeddedChunks(this.storage).deleteWhere({ taskId: event.taskId }));
+      }
+    });
+  }
+
+  /**
+   * Queue the completed documents of the current workspace that are not embedded with the
+   * current model yet, and drop chunks of documents that no longer exist. Called on startup.
+   */
+  async backfill(): Promise<void> {
+    const model = embeddingModelId(getEmbedder());
+    const chunks = embeddedChunks(this.storage);
+    const tasks = await this.databaseService.getAllTasks();
+    const taskIds = new Set(tasks.map(task => task.id));
+
+    for (const taskId of chunks.distinct('taskId')) {
+      if (typeof taskId === 'string' && !taskIds.has(taskId)) {
+        chunks.deleteWhere({ taskId });
+      }
+    }
+
+    const missing = tasks.filter(task =>
+      task.status === 'completed' && task.result?.extractedTextPath && chunks.count({ taskId: task.id, model }) === 0
+    );
+    if (missing.length > 0) {
+      console.log(`[EMBEDDINGS] Queued ${missing.length} documents of workspace ${currentWorkspace().workspace.id} for embedding`);
+      for (const task of missing) {
+        this.queue.push({ taskId: task.id, workspace: currentWorkspace() });
+      }
+    }
+  }
+
+  // Replace the chunks of a document with freshly embedded ones
+  private async indexTask(taskId: string): Promise<void> {
+    const task = await this.databaseService.getTask(taskId);
+    if (task?.status !== 'completed' || !task.result?.extractedTextPath) return;
+
+    const markdown = await fs.readFile(task.result.extractedTextPath, 'utf8');
+    const content = extractedContent(markdown);
+    const pieces = splitIntoChunks(content.text, this.chunkChars).filter(chunk => chunk.text.trim());
+
+    const embedder = getEmbedder();
+    const vectors: number[][] = [];
+    for (let i = 0; i < pieces.length; i += this.batchSize) {
+      vectors.push(...await embedder.embed(pieces.slice(i, i + this.batchSize).map(chunk => chunk.text)));
+    }
+
+    // The document may have been removed or reprocessed while it was being embedded
+    const current = await this.databaseService.getTask(taskId);
+    if (current?.status !== 'completed' || current.result?.extractedTextPath !== task.result.extractedTextPath) return;
+
+    const model = embeddingModelId(embedder);
+    const chunks = embeddedChunks(this.storage);
+    this.storage.transaction(() => {
+      chunks.deleteWhere({ taskId });
+      pieces.forEach((piece, i) => {
+        chunks.put({
+          id: `${taskId}/${i}`,
+          taskId,
+          filename: task.filename,
+          chunkIndex: i,
+          text: piece.text.trim(),
+          page: pageAt(task, content.offset + piece.startOffset),
+          startOffset: content.offset + piece.startOffset,
+          endOffset: content.offset + piece.endOffset,
+          model,
+          vector: encodeVector(vectors[i])
+        });
+      });
+    });
+    console.log(`[EMBEDDINGS] Indexed ${pieces.length} chunks of ${task.filename}`);
+  }
+
+  /**
+   * Chunks of the current workspace most similar to the query, best first. Documents that
+   * are still waiting to be embedded are not found yet.
+   */
+  async search(query: string, options: { limit?: number; taskIds?: string[] } = {}): Promise<SearchResult[]> {
+    const embedder = getEmbedder();
+    const [queryVector] = await embedder.embed([query]);
+    const target = normalize(queryVector);
+
+    const tasks = new Map<string, PDFTask>((await this.databaseService.getAllTasks()).map(task => [task.id, task]));
+    const candidates = embeddedChunks(this.storage)
+      .find({ model: embeddingModelId(embedder) })
+      .filter(chunk => tasks.has(chunk.taskId) && (!options.taskIds || options.taskIds.includes(chunk.taskId)));
+
+    return candidates
+      .map(chunk => {
+        const vector = normalize(decodeVector(chunk.vector));
+        const score = vector.reduce((sum, value, i) => sum + value * target[i], 0);
+        return {
+          taskId: chunk.taskId,
+          filename: tasks.get(chunk.taskId)!.filename,
+          chunkIndex: chunk.chunkIndex,
+          page: chunk.page,
+          text: chunk.text,
+          score: Math.round(score * 10000) / 10000
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 10);
+  }
+
+  // Size of the index of the current workspace and of the backlog
+  getStatus(): { model: string; chunks: number; documents: number; queued: number } {
+    const model = embeddingModelId(getEmbedder());
+    const chunks = embeddedChunks(this.storage);
+    return {
+      model,
+      chunks: chunks.count({ model }),
+      documents: new Set(chunks.find({ model }).map(chunk => chunk.taskId)).size,
+      queued: this.queue.length() + this.queue.running()
+    };
+  }
+}
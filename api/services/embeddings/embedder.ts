@@ -0,0 +1,50 @@
+import { LocalEmbedder } from './localEmbedder';
+import { OpenAIEmbedder } from './openaiEmbedder';
+import { HashEmbedder } from './hashEmbedder';
+
+export interface Embedder {
+  readonly name: string;
+  readonly model: string;
+  // One vector per text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbedderName = 'local' | 'openai' | 'hash';
+
+let activeEmbedder: Embedder | null = null;
+
+function createEmbedder(name: string): Embedder {
+  switch (name) {
+    case 'local':
+      return new LocalEmbedder();
+    case 'openai':
+      return new OpenAIEmbedder();
+    case 'hash':
+      return new HashEmbedder();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Use one of: local, openai, hash`);
+  }
+}
+
+/**
+ * Get the configured embedder (EMBEDDING_PROVIDER, defaults to local).
+ * Created lazily, so the local model is only loaded once something is embedded.
+ */
+export function getEmbedder(): Embedder {
+  if (!activeEmbedder) {
+    const name = (process.env.EMBEDDING_PROVIDER || 'local').trim().toLowerCase();
+    activeEmbedder = createEmbedder(name);
+    console.log(`[EMBEDDINGS] Using embedder: ${activeEmbedder.name} (${activeEmbedder.model})`);
+  }
+  return activeEmbedder;
+}
+
+// Replace the active embedder (used by scripts and when switching config at runtime)
+export function setEmbedder(embedder: Embedder | null): void {
+  activeEmbedder = embedder;
+}
+
+// Vectors of different embedders or models cannot be compared, so stored vectors are tagged with this
+export function embeddingModelId(embedder: Embedder): string {
+  return `${embedder.name}:${embedder.model}`;
+}
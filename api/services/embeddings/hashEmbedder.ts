@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import { tokenize } from '../documentRetrieval';
+import { Embedder } from './embedder';
+
+const DIMENSIONS = 512;
+
+/**
+ * Deterministic, network-free embedder for demos, CI and air-gapped runs without a local model.
+ * Words and word pairs are hashed into a fixed number of dimensions, so similarity is lexical
+ * rather than semantic.
+ */
+export class HashEmbedder implements Embedder {
+  readonly name: string = 'hash';
+  readonly model: string = `hash-${DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(DIMENSIONS).fill(0);
+      const words = tokenize(text);
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+      for (const feature of features) {
+        const digest = crypto.createHash('md5').update(feature).digest();
+        // The sign bit keeps colliding features from only ever adding up
+        vector[digest.readUInt32LE(0) % DIMENSIONS] += digest[4] & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+}
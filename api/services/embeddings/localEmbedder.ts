@@ -0,0 +1,37 @@
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { Embedder } from './embedder';
+
+/**
+ * Sentence embeddings computed in-process with transformers.js (ONNX runtime). The model is
+ * downloaded from the Hugging Face hub into EMBEDDING_CACHE_DIR on first use; with
+ * EMBEDDING_LOCAL_ONLY=true it is only loaded from there, so no network is needed.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly name: string = 'local';
+  readonly model: string = process.env.EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2';
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const { pipeline, env } = await import('@huggingface/transformers');
+        if (process.env.EMBEDDING_CACHE_DIR) {
+          env.cacheDir = process.env.EMBEDDING_CACHE_DIR;
+        }
+        env.allowRemoteModels = process.env.EMBEDDING_LOCAL_ONLY !== 'true';
+        console.log(`[EMBEDDINGS] Loading local model ${this.model}`);
+        return pipeline('feature-extraction', this.model);
+      })();
+      // A failed load (e.g. offline without a cached model) is retried on the next call
+      this.extractor.catch(() => { this.extractor = null; });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+}
@@ -0,0 +1,25 @@
+import OpenAI from 'openai';
+import { Embedder } from './embedder';
+
+// Embeddings from the OpenAI API, for deployments that already send documents to OpenAI
+export class OpenAIEmbedder implements Embedder {
+  readonly name: string = 'openai';
+  readonly model: string = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+  private client: OpenAI | null = null;
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI API key not found. Please configure OPENAI_API_KEY environment variable.');
+      }
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.getClient().embeddings.create({ model: this.model, input: texts });
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import express from 'express';
+import { PDFTask } from '../types';
+import { currentWorkspace } from './workspaceContext';
+
+// State transitions pushed to the frontend over GET /events
+export type ServerEvent =
+  | {
+      type: 'task';
+      taskId: string;
+      filename?: string;
+      status: PDFTask['status'] | 'removed';
+      error?: string;
+    }
+  | {
+      type: 'agent-task';
+      queueId: string;
+      taskId: string;
+      status?: string;
+      error?: string;
+    }
+  | {
+      type: 'index';
+      indexId: string;
+      indexName: string;
+      filename: string;
+      taskId?: string;
+    };
+
+export type ServerEventType = ServerEvent['type'];
+
+// As emitted: stamped with the time and the workspace it happened in
+type PublishedEvent = ServerEvent & { at: string; workspaceId: string };
+
+const emitter = new EventEmitter();
+// Every open browser tab holds a listener
+emitter.setMaxListeners(0);
+
+export function publishEvent(event: ServerEvent): void {
+  const published: PublishedEvent = { ...event, at: new Date().toISOString(), workspaceId: currentWorkspace().workspace.id };
+  emitter.emit('event', published);
+}
+
+export function subscribeToEvents(listener: (event: PublishedEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => emitter.off('event', listener);
+}
+
+/**
+ * Server-Sent Events stream of task, agent task and index events of the request's workspace.
+ * ?types=task,index limits the stream to those event types.
+ */
+export function serverEventsHandler(req: express.Request, res: express.Response): void {
+  const types = typeof req.query.types === 'string' && req.query.types
+    ? new Set(req.query.types.split(','))
+    : null;
+  const workspaceId = currentWorkspace().workspace.id;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+  });
+  res.write('retry: 3000\n\n');
+
+  const unsubscribe = subscribeToEvents(event => {
+    if (event.workspaceId !== workspaceId) return;
+    if (types && !types.has(event.type)) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Comment lines keep idle connections open through proxies
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
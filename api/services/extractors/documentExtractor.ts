@@ -0,0 +1,31 @@
+import { PageContent } from '../pageLayout';
+
+export type ExtractionMethod = 'text-layer' | 'ocr' | 'docx' | 'html' | 'markdown' | 'plain-text';
+
+export interface DocumentExtraction {
+  text: string; // Plain text with paragraph breaks
+  pages: PageContent[];
+  paginated: boolean; // False for formats without pages, which are extracted as a single page
+  pageCount: number;
+  method: ExtractionMethod;
+  documentInfo?: Record<string, any>; // Format-specific metadata (PDF info dictionary, ...)
+  ocrConfidence?: number;
+  ocrPagesProcessed?: number;
+}
+
+/**
+ * Turns one document format into text and page layout for the processing pipeline
+ */
+export interface DocumentExtractor {
+  readonly name: string;
+  readonly mimeTypes: string[]; // First entry is the canonical MIME type
+  readonly extensions: string[]; // Lower case, with leading dot
+  extract(filePath: string): Promise<DocumentExtraction>;
+}
+
+// Extractors fail early on documents without usable text
+export function assertReadableText(text: string, description: string): void {
+  if (!text || text.trim().length < 10) {
+    throw new Error(`No readable text found in ${description}`);
+  }
+}
@@ -0,0 +1,34 @@
+import mammoth from 'mammoth';
+import { pagesToPlainText } from '../pageLayout';
+import { DocumentExtraction, DocumentExtractor, assertReadableText } from './documentExtractor';
+import { htmlToBlocks } from './htmlExtractor';
+
+/**
+ * Word documents, converted to HTML by mammoth so Word heading styles become headings
+ */
+export class DocxExtractor implements DocumentExtractor {
+  readonly name = 'docx';
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+  readonly extensions = ['.docx'];
+
+  async extract(filePath: string): Promise<DocumentExtraction> {
+    const result = await mammoth.convertToHtml({ path: filePath });
+    for (const message of result.messages) {
+      console.warn(`[PDF PROCESSOR] DOCX conversion ${message.type}: ${message.message}`);
+    }
+
+    const { blocks } = htmlToBlocks(result.value);
+    const pages = [{ pageNumber: 1, blocks }];
+    const text = pagesToPlainText(pages);
+
+    assertReadableText(text, 'Word document');
+
+    return {
+      text,
+      pages,
+      paginated: false,
+      pageCount: 1,
+      method: 'docx'
+    };
+  }
+}
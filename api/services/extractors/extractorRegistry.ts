@@ -0,0 +1,54 @@
+import path from 'path';
+import { DocumentExtractor } from './documentExtractor';
+import { PdfExtractor } from './pdfExtractor';
+import { DocxExtractor } from './docxExtractor';
+import { HtmlExtractor } from './htmlExtractor';
+import { MarkdownExtractor, PlainTextExtractor } from './textExtractor';
+
+const extractors: DocumentExtractor[] = [
+  new PdfExtractor(),
+  new DocxExtractor(),
+  new HtmlExtractor(),
+  new MarkdownExtractor(),
+  new PlainTextExtractor()
+];
+
+const extractorsByMimeType = new Map<string, DocumentExtractor>();
+const mimeTypesByExtension = new Map<string, string>();
+
+for (const extractor of extractors) {
+  for (const mimeType of extractor.mimeTypes) {
+    extractorsByMimeType.set(mimeType, extractor);
+  }
+  for (const extension of extractor.extensions) {
+    mimeTypesByExtension.set(extension, extractor.mimeTypes[0]);
+  }
+}
+
+export const SUPPORTED_EXTENSIONS = extractors.flatMap(extractor => extractor.extensions);
+
+export function getExtractor(mimeType: string): DocumentExtractor | undefined {
+  return extractorsByMimeType.get(mimeType.split(';')[0].trim().toLowerCase());
+}
+
+/**
+ * MIME type of a document we can extract. The file extension wins since browsers report generic
+ * or empty types for Markdown and text files; the reported type covers files without an extension.
+ */
+export function resolveMimeType(filename: string, reportedMimeType?: string): string | null {
+  const byExtension = mimeTypesByExtension.get(path.extname(filename).toLowerCase());
+  if (byExtension) {
+    return byExtension;
+  }
+  const extractor = reportedMimeType ? getExtractor(reportedMimeType) : undefined;
+  return extractor ? extractor.mimeTypes[0] : null;
+}
+
+// Canonical extension for a MIME type, used to name stored files that came without one
+export function extensionForMimeType(mimeType: string): string | undefined {
+  return getExtractor(mimeType)?.extensions[0];
+}
+
+export function isSupportedDocument(filename: string): boolean {
+  return mimeTypesByExtension.has(path.extname(filename).toLowerCase());
+}
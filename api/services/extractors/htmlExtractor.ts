@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import { Parser } from 'htmlparser2';
+import { PageBlock, pagesToPlainText } from '../pageLayout';
+import { DocumentExtraction, DocumentExtractor, assertReadableText } from './documentExtractor';
+
+// Elements whose content is never document text
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'nav', 'iframe']);
+
+// Elements that start a new paragraph
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'pre',
+  'ul', 'ol', 'li', 'table', 'tr', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'hr', 'form'
+]);
+
+const HEADING_ELEMENTS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+/**
+ * Convert HTML into headings and paragraphs. Also used for DOCX, which mammoth converts to HTML.
+ */
+export function htmlToBlocks(html: string): { blocks: PageBlock[]; title?: string } {
+  const blocks: PageBlock[] = [];
+  let buffer = '';
+  let skipDepth = 0;
+  let inHeading = false;
+  let inTitle = false;
+  let title = '';
+
+  const flush = () => {
+    const text = buffer.replace(/\s+/g, ' ').trim();
+    buffer = '';
+    if (!text) return;
+    blocks.push({ type: inHeading ? 'heading' : 'paragraph', text });
+  };
+
+  const parser = new Parser({
+    onopentag(name) {
+      if (name === 'title') inTitle = true;
+      if (SKIPPED_ELEMENTS.has(name)) {
+        skipDepth++;
+        return;
+      }
+      if (skipDepth > 0) return;
+      if (HEADING_ELEMENTS.has(name)) {
+        flush();
+        inHeading = true;
+      } else if (BLOCK_ELEMENTS.has(name)) {
+        flush();
+        if (name === 'li') buffer = '- ';
+      } else if (name === 'br') {
+        buffer += ' ';
+      } else if (name === 'td' || name === 'th') {
+        buffer += ' | ';
+      }
+    },
+    ontext(text) {
+      if (inTitle) title += text;
+      if (skipDepth === 0) buffer += text;
+    },
+    onclosetag(name) {
+      if (name === 'title') inTitle = false;
+      if (SKIPPED_ELEMENTS.has(name)) {
+        skipDepth = Math.max(0, skipDepth - 1);
+        return;
+      }
+      if (skipDepth > 0) return;
+      if (HEADING_ELEMENTS.has(name)) {
+        flush();
+        inHeading = false;
+      } else if (BLOCK_ELEMENTS.has(name)) {
+        flush();
+      }
+    }
+  }, { decodeEntities: true, lowerCaseTags: true });
+
+  parser.write(html);
+  parser.end();
+  flush();
+
+  const cleanTitle = title.replace(/\s+/g, ' ').trim();
+  return { blocks, title: cleanTitle || undefined };
+}
+
+/**
+ * Saved web pages and other HTML documents
+ */
+export class HtmlExtractor implements DocumentExtractor {
+  readonly name = 'html';
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+  readonly extensions = ['.html', '.htm', '.xhtml'];
+
+  async extract(filePath: string): Promise<DocumentExtraction> {
+    const html = await fs.readFile(filePath, 'utf8');
+    const { blocks, title } = htmlToBlocks(html);
+    const pages = [{ pageNumber: 1, blocks }];
+    const text = pagesToPlainText(pages);
+
+    assertReadableText(text, 'HTML document');
+
+    return {
+      text,
+      pages,
+      paginated: false,
+      pageCount: 1,
+      method: 'html',
+      documentInfo: title ? { title } : {}
+    };
+  }
+}
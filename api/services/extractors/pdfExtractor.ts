@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import pdfParse from 'pdf-parse';
+import { OcrService } from '../ocrService';
+import { PageContent, createLayoutPageRenderer, pageContentFromText, pagesToPlainText } from '../pageLayout';
+import { DocumentExtraction, DocumentExtractor } from './documentExtractor';
+
+/**
+ * PDF text layer via pdf-parse, with an OCR fallback for scanned documents
+ */
+export class PdfExtractor implements DocumentExtractor {
+  readonly name = 'pdf';
+  readonly mimeTypes = ['application/pdf'];
+  readonly extensions = ['.pdf'];
+  private ocrService: OcrService;
+
+  constructor() {
+    this.ocrService = new OcrService();
+  }
+
+  async extract(filePath: string): Promise<DocumentExtraction> {
+    const pdfBuffer = await fs.readFile(filePath);
+    const pages: PageContent[] = [];
+    const pdfData = await pdfParse(pdfBuffer, { pagerender: createLayoutPageRenderer(pages) });
+
+    // Paragraphs and headings are rebuilt from the page layout
+    const text = pagesToPlainText(pages);
+    const base = { paginated: true, pageCount: pdfData.numpages, documentInfo: pdfData.info || {} };
+
+    // Scanned documents have an empty or near-empty text layer (page numbers, stamps)
+    const minCharsPerPage = parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || '50', 10);
+    const charsPerPage = text.length / Math.max(pdfData.numpages, 1);
+    const ocrEnabled = process.env.OCR_ENABLED !== 'false';
+
+    if (ocrEnabled && charsPerPage < minCharsPerPage) {
+      console.log(`[PDF PROCESSOR] Sparse text layer (${charsPerPage.toFixed(1)} chars/page), falling back to OCR for: ${filePath}`);
+      try {
+        const ocr = await this.ocrService.recognizePdf(pdfBuffer, '[PDF PROCESSOR OCR]');
+        const ocrPages = ocr.pages.map((pageText, i) => pageContentFromText(i + 1, pageText));
+        const ocrText = pagesToPlainText(ocrPages);
+
+        if (ocrText.length > text.length) {
+          console.log(`[PDF PROCESSOR] OCR recognized ${ocrText.length} chars over ${ocr.pagesProcessed} pages (confidence ${ocr.confidence.toFixed(1)})`);
+          return {
+            ...base,
+            text: ocrText,
+            pages: ocrPages,
+            method: 'ocr',
+            ocrConfidence: Math.round(ocr.confidence * 100) / 100,
+            ocrPagesProcessed: ocr.pagesProcessed
+          };
+        }
+        console.warn(`[PDF PROCESSOR] OCR did not recognize more text than the text layer, keeping the text layer`);
+      } catch (ocrError) {
+        console.error('[PDF PROCESSOR] OCR fallback failed:', ocrError);
+      }
+    }
+
+    if (!text || text.length < 10) {
+      throw new Error(ocrEnabled
+        ? 'No readable text found in PDF - text layer is empty and OCR recognized no text'
+        : 'No readable text found in PDF - document may be image-based or encrypted (OCR is disabled)');
+    }
+
+    return { ...base, text, pages, method: 'text-layer' };
+  }
+}
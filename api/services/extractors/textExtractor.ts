@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import { PageBlock, pageContentFromText, pagesToPlainText } from '../pageLayout';
+import { DocumentExtraction, DocumentExtractor, assertReadableText } from './documentExtractor';
+
+async function readTextFile(filePath: string): Promise<string> {
+  const content = await fs.readFile(filePath, 'utf8');
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+// Inline markdown reduced to its text: links keep their label, images and emphasis markers are dropped
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Markdown headings (# and underlined) become headings; list items and paragraphs become paragraphs
+ */
+export function markdownToBlocks(markdown: string): PageBlock[] {
+  const blocks: PageBlock[] = [];
+  // Front matter is metadata, not content
+  const lines = markdown.replace(/^---\n[\s\S]*?\n---\n/, '').split('\n');
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = stripInlineMarkdown(paragraph.join(' '));
+    paragraph = [];
+    if (text) blocks.push({ type: 'paragraph', text });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      // Code is kept verbatim as one paragraph
+      if (inFence) {
+        blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+        paragraph = [];
+      } else {
+        flush();
+      }
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+    const nextLine = lines[i + 1] || '';
+    if (heading || (line.trim() && paragraph.length === 0 && /^\s{0,3}(=+|-+)\s*$/.test(nextLine))) {
+      flush();
+      const text = stripInlineMarkdown(heading ? heading[1] : line);
+      if (text) blocks.push({ type: 'heading', text });
+      if (!heading) i++; // Skip the underline
+      continue;
+    }
+
+    if (!line.trim() || /^\s{0,3}([-*_]\s*){3,}$/.test(line)) {
+      flush();
+    } else if (/^\s*([-*+]|\d+[.)])\s+/.test(line)) {
+      flush();
+      paragraph.push(line.replace(/^\s*([-*+]|\d+[.)])\s+/, '- '));
+    } else {
+      paragraph.push(line.replace(/^\s*>\s?/, ''));
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly name = 'markdown';
+  readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+  readonly extensions = ['.md', '.markdown'];
+
+  async extract(filePath: string): Promise<DocumentExtraction> {
+    const pages = [{ pageNumber: 1, blocks: markdownToBlocks(await readTextFile(filePath)) }];
+    const text = pagesToPlainText(pages);
+
+    assertReadableText(text, 'Markdown document');
+
+    return { text, pages, paginated: false, pageCount: 1, method: 'markdown' };
+  }
+}
+
+/**
+ * Plain text, e.g. transcripts: blank lines separate paragraphs
+ */
+export class PlainTextExtractor implements DocumentExtractor {
+  readonly name = 'text';
+  readonly mimeTypes = ['text/plain'];
+  readonly extensions = ['.txt', '.text'];
+
+  async extract(filePath: string): Promise<DocumentExtraction> {
+    const pages = [pageContentFromText(1, await readTextFile(filePath))];
+    const text = pagesToPlainText(pages);
+
+    assertReadableText(text, 'text document');
+
+    return { text, pages, paginated: false, pageCount: 1, method: 'plain-text' };
+  }
+}
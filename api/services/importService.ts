@@ -0,0 +1,280 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import { PDFQueueService } from './pdfQueueService';
+import { hashFile } from './contentHash';
+import { isSupportedDocument } from './extractors/extractorRegistry';
+import { TaskPriority } from '../types';
+import { currentWorkspace } from './workspaceContext';
+
+export type ImportFileStatus = 'queued' | 'duplicate' | 'unsupported' | 'failed';
+
+export interface ImportFileResult {
+  name: string; // Path inside the archive or directory
+  status: ImportFileStatus;
+  taskId?: string; // New task, or the existing task for duplicates
+  filename?: string; // Stored upload filename
+  error?: string;
+}
+
+export interface ImportJob {
+  id: string;
+  workspaceId: string; // Jobs are only listed in the workspace they import into
+  source: 'zip' | 'directory';
+  sourceName: string;
+  force: boolean;
+  priority: TaskPriority;
+  status: 'running' | 'completed' | 'failed';
+  createdAt: string;
+  completedAt?: string;
+  total: number; // Files found, including unsupported ones
+  processed: number;
+  counts: Record<ImportFileStatus, number>;
+  files: ImportFileResult[];
+  error?: string;
+}
+
+interface ImportOptions {
+  force?: boolean; // Queue files even when their content was uploaded before
+  priority?: TaskPriority; // Defaults to backfill so bulk imports do not hold up regular uploads
+}
+
+// Archive metadata and hidden files are not documents
+const isIgnoredEntry = (name: string) =>
+  name.split('/').some(part => part === '__MACOSX' || part.startsWith('.'));
+
+/**
+ * Copy one document into the uploads directory and queue it, unless its content was uploaded
+ * before (force skips that check). Shared by bulk imports and the inbox watcher.
+ */
+export async function ingestDocument(
+  queueService: PDFQueueService,
+  uploadDir: string,
+  baseName: string,
+  copyTo: (target: string) => Promise<void>,
+  force = false,
+  priority: TaskPriority = 'normal'
+): Promise<{ status: 'queued' | 'duplicate'; taskId: string; filename: string }> {
+  // Same naming as /upload; files from different folders can share a name within one millisecond
+  let timestamp = Date.now();
+  while (fs.existsSync(path.join(uploadDir, `${timestamp}-${baseName}`))) {
+    timestamp++;
+  }
+  const filename = `${timestamp}-${baseName}`;
+  const target = path.join(uploadDir, filename);
+
+  try {
+    await copyTo(target);
+
+    const contentHash = await hashFile(target);
+    const existingTask = force ? undefined : await queueService.findTaskByContentHash(contentHash);
+    if (existingTask) {
+      await fsPromises.unlink(target);
+      return { status: 'duplicate', taskId: existingTask.id, filename: existingTask.filename };
+    }
+
+    const taskId = await queueService.addTask(filename, target, contentHash, priority);
+    return { status: 'queued', taskId, filename };
+  } catch (error) {
+    await fsPromises.unlink(target).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Bulk import of documents from a ZIP archive or a server-side directory. Imports run in the
+ * background, one file at a time, into the workspace they were started in; progress is kept in
+ * memory and polled through GET /import/:id.
+ */
+export class ImportService {
+  private jobs = new Map<string, ImportJob>();
+  private maxFileBytes: number;
+  private allowedDirectories: string[];
+
+  constructor(private queueService: PDFQueueService) {
+    this.maxFileBytes = parseInt(process.env.IMPORT_MAX_FILE_MB || '100', 10) * 1024 * 1024;
+    this.allowedDirectories = (process.env.IMPORT_ALLOWED_DIRS || '')
+      .split(',')
+      .map(dir => dir.trim())
+      .filter(Boolean)
+      .map(dir => path.resolve(dir));
+  }
+
+  // Jobs of the current workspace only
+  getJob(importId: string): ImportJob | undefined {
+    const job = this.jobs.get(importId);
+    return job?.workspaceId === currentWorkspace().workspace.id ? job : undefined;
+  }
+
+  listJobs(): ImportJob[] {
+    const workspaceId = currentWorkspace().workspace.id;
+    return Array.from(this.jobs.values())
+      .filter(job => job.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Start importing a ZIP archive. The archive file is deleted once the import finishes.
+   */
+  startZipImport(zipPath: string, originalName: string, options: ImportOptions = {}): ImportJob {
+    const job = this.createJob('zip', originalName, options);
+    this.run(job, () => this.importZip(job, zipPath))
+      .finally(() => fsPromises.unlink(zipPath).catch(() => undefined));
+    return job;
+  }
+
+  /**
+   * Start importing every document below a directory. Only directories under
+   * IMPORT_ALLOWED_DIRS can be imported.
+   */
+  async startDirectoryImport(directory: string, options: ImportOptions = {}): Promise<ImportJob> {
+    const resolved = path.resolve(directory);
+    const allowed = this.allowedDirectories.some(root => resolved === root || resolved.startsWith(root + path.sep));
+    if (!allowed) {
+      throw new Error(this.allowedDirectories.length === 0
+        ? 'Directory imports are disabled, set IMPORT_ALLOWED_DIRS to enable them'
+        : `Directory is not under IMPORT_ALLOWED_DIRS: ${resolved}`);
+    }
+
+    const stats = await fsPromises.stat(resolved).catch(() => null);
+    if (!stats?.isDirectory()) {
+      throw new Error(`Directory not found: ${resolved}`);
+    }
+
+    const job = this.createJob('directory', resolved, options);
+    this.run(job, () => this.importDirectory(job, resolved));
+    return job;
+  }
+
+  private createJob(source: ImportJob['source'], sourceName: string, options: ImportOptions): ImportJob {
+    const job: ImportJob = {
+      id: `import_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      workspaceId: currentWorkspace().workspace.id,
+      source,
+      sourceName,
+      force: !!options.force,
+      priority: options.priority || 'backfill',
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      total: 0,
+      processed: 0,
+      counts: { queued: 0, duplicate: 0, unsupported: 0, failed: 0 },
+      files: []
+    };
+    this.jobs.set(job.id, job);
+    console.log(`[IMPORT] Started ${source} import ${job.id}: ${sourceName}`);
+    return job;
+  }
+
+  private async run(job: ImportJob, importFn: () => Promise<void>): Promise<void> {
+    try {
+      await importFn();
+      job.status = 'completed';
+      console.log(`[IMPORT] Finished ${job.id}: ${job.counts.queued} queued, ${job.counts.duplicate} duplicates, ${job.counts.unsupported} unsupported, ${job.counts.failed} failed`);
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[IMPORT] Import ${job.id} failed:`, error);
+    } finally {
+      job.completedAt = new Date().toISOString();
+    }
+  }
+
+  private record(job: ImportJob, result: ImportFileResult): void {
+    job.files.push(result);
+    job.counts[result.status]++;
+    job.processed++;
+    if (result.status === 'failed') {
+      console.warn(`[IMPORT] ${result.name}: ${result.error}`);
+    }
+  }
+
+  private async importZip(job: ImportJob, zipPath: string): Promise<void> {
+    const zipfile = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+      yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (error, opened) => {
+        if (error || !opened) reject(error || new Error('Failed to open archive'));
+        else resolve(opened);
+      });
+    });
+
+    try {
+      // Read the central directory first so the total is known before extracting
+      const entries = await new Promise<yauzl.Entry[]>((resolve, reject) => {
+        const collected: yauzl.Entry[] = [];
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          if (!entry.fileName.endsWith('/') && !isIgnoredEntry(entry.fileName)) {
+            collected.push(entry);
+          }
+          zipfile.readEntry();
+        });
+        zipfile.on('end', () => resolve(collected));
+        zipfile.on('error', reject);
+        zipfile.readEntry();
+      });
+      job.total = entries.length;
+
+      for (const entry of entries) {
+        await this.importFile(job, entry.fileName, entry.uncompressedSize, async (target) => {
+          const stream = await new Promise<Readable>((resolve, reject) => {
+            zipfile.openReadStream(entry, (error, readStream) => {
+              if (error || !readStream) reject(error || new Error('Failed to read entry'));
+              else resolve(readStream);
+            });
+          });
+          await pipeline(stream, fs.createWriteStream(target));
+        });
+      }
+    } finally {
+      zipfile.close();
+    }
+  }
+
+  private async importDirectory(job: ImportJob, directory: string): Promise<void> {
+    const files: string[] = [];
+    const walk = async (dir: string) => {
+      const entries = await fsPromises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(dir, entry.name);
+        // Symlinks are not followed so an import cannot leave the directory
+        if (entry.isDirectory()) await walk(fullPath);
+        else if (entry.isFile()) files.push(fullPath);
+      }
+    };
+    await walk(directory);
+    job.total = files.length;
+
+    for (const filePath of files) {
+      const { size } = await fsPromises.stat(filePath);
+      await this.importFile(job, path.relative(directory, filePath), size, target => fsPromises.copyFile(filePath, target));
+    }
+  }
+
+  // Copy one file into the uploads directory and queue it, unless it is unsupported or a duplicate
+  private async importFile(
+    job: ImportJob,
+    name: string,
+    size: number,
+    copyTo: (target: string) => Promise<void>
+  ): Promise<void> {
+    const baseName = path.basename(name);
+    if (!isSupportedDocument(baseName)) {
+      this.record(job, { name, status: 'unsupported' });
+      return;
+    }
+    if (size > this.maxFileBytes) {
+      this.record(job, { name, status: 'failed', error: `File is larger than ${this.maxFileBytes / 1024 / 1024}MB (IMPORT_MAX_FILE_MB)` });
+      return;
+    }
+
+    try {
+      const ingested = await ingestDocument(this.queueService, currentWorkspace().directories.uploads, baseName, copyTo, job.force, job.priority);
+      this.record(job, { name, ...ingested });
+    } catch (error) {
+      this.record(job, { name, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PDFQueueService } from './pdfQueueService';
+import { ingestDocument } from './importService';
+import { isSupportedDocument } from './extractors/extractorRegistry';
+import { AgentType, startAgentRun } from './agent/agentService';
+import { getStorage, Storage } from './storage/storage';
+import { inboxFiles, inboxQueries } from './storage/collections';
+
+export interface InboxFileRecord {
+  size: number;
+  mtimeMs: number;
+  status: 'queued' | 'duplicate' | 'failed';
+  taskId?: string; // New task, or the existing task for duplicates
+  filename?: string;
+  error?: string;
+  ingestedAt: string;
+}
+
+export interface SavedAgentQuery {
+  id: string;
+  agentType: AgentType;
+  userQuery: string;
+  createdAt: string;
+  lastRunAt?: string;
+  lastQueueKey?: string;
+  lastError?: string;
+}
+
+// Size and modification time of a file that is still being written
+interface PendingFile {
+  size: number;
+  mtimeMs: number;
+  since: number;
+}
+
+/**
+ * Watches an inbox directory and queues new documents dropped into it. The directory is polled
+ * rather than watched through fs events, which are unreliable on network shares. A file is only
+ * picked up once its size and modification time have not changed for INBOX_SETTLE_MS, so copies
+ * in progress are not ingested half-written. Ingested files are recorded in storage and skipped
+ * after a restart unless they change.
+ *
+ * Once the documents of a batch have been processed, the saved agent queries are re-run so their
+ * results include the new documents.
+ */
+export class InboxWatcherService {
+  private storage: Storage;
+  private directory: string | null;
+  private pollIntervalMs: number;
+  private settleMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private pending = new Map<string, PendingFile>();
+  private awaitingTaskIds = new Set<string>(); // Tasks queued since the last agent re-run
+  private agentRuns: Promise<void> = Promise.resolve();
+  private lastScanAt: string | null = null;
+  private lastScanError: string | null = null;
+
+  constructor(private queueService: PDFQueueService, private uploadDir: string) {
+    this.directory = process.env.INBOX_DIR ? path.resolve(process.env.INBOX_DIR) : null;
+    this.pollIntervalMs = parseInt(process.env.INBOX_POLL_INTERVAL_MS || '5000', 10);
+    this.settleMs = parseInt(process.env.INBOX_SETTLE_MS || '3000', 10);
+    this.storage = getStorage();
+  }
+
+  isEnabled(): boolean {
+    return this.directory !== null;
+  }
+
+  /**
+   * Start polling INBOX_DIR. Does nothing when no inbox directory is configured.
+   */
+  async start(): Promise<void> {
+    if (!this.directory || this.timer) return;
+    await fs.mkdir(this.directory, { recursive: true });
+    console.log(`[INBOX] Watching ${this.directory} (poll every ${this.pollIntervalMs}ms, settle ${this.settleMs}ms)`);
+    this.scheduleScan(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getStatus() {
+    const records = inboxFiles(this.storage).all()
+      .map(({ path: file, ...record }) => ({ file, ...record }))
+      .sort((a, b) => b.ingestedAt.localeCompare(a.ingestedAt));
+
+    return {
+      enabled: this.isEnabled(),
+      directory: this.directory,
+      pollIntervalMs: this.pollIntervalMs,
+      settleMs: this.settleMs,
+      lastScanAt: this.lastScanAt,
+      lastScanError: this.lastScanError,
+      settling: Array.from(this.pending.keys()),
+      awaitingTasks: this.awaitingTaskIds.size,
+      ingested: records.length,
+      recentFiles: records.slice(0, 50),
+      agentQueries: inboxQueries(this.storage).all()
+    };
+  }
+
+  async listAgentQueries(): Promise<SavedAgentQuery[]> {
+    return inboxQueries(this.storage).all();
+  }
+
+  async addAgentQuery(agentType: AgentType, userQuery: string): Promise<SavedAgentQuery> {
+    const query: SavedAgentQuery = {
+      id: `inboxq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      agentType,
+      userQuery,
+      createdAt: new Date().toISOString()
+    };
+    inboxQueries(this.storage).put(query);
+    return query;
+  }
+
+  async removeAgentQuery(queryId: string): Promise<boolean> {
+    return inboxQueries(this.storage).delete(queryId);
+  }
+
+  private scheduleScan(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.scan();
+        await this.checkAwaitingTasks();
+        this.lastScanError = null;
+      } catch (error) {
+        this.lastScanError = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[INBOX] Scan failed:', error);
+      } finally {
+        this.lastScanAt = new Date().toISOString();
+        if (this.timer) this.scheduleScan(this.pollIntervalMs);
+      }
+    }, delay);
+  }
+
+  private async scan(): Promise<void> {
+    const directory = this.directory!;
+    const seen = new Set<string>();
+    const now = Date.now();
+
+    for (const filePath of await this.listFiles(directory)) {
+      const relativePath = path.relative(directory, filePath);
+      if (!isSupportedDocument(relativePath)) continue;
+      seen.add(relativePath);
+
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats) continue; // Removed since the listing
+
+      // Unchanged since it was ingested
+      const record = inboxFiles(this.storage).get(relativePath);
+      if (record && record.size === stats.size && record.mtimeMs === stats.mtimeMs) {
+        this.pending.delete(relativePath);
+        continue;
+      }
+
+      const pending = this.pending.get(relativePath);
+      if (!pending || pending.size !== stats.size || pending.mtimeMs !== stats.mtimeMs) {
+        this.pending.set(relativePath, { size: stats.size, mtimeMs: stats.mtimeMs, since: now });
+        continue;
+      }
+      if (now - pending.since < this.settleMs || stats.size === 0) continue;
+
+      this.pending.delete(relativePath);
+      await this.ingest(filePath, relativePath, stats.size, stats.mtimeMs);
+    }
+
+    // Forget files that disappeared while settling
+    for (const relativePath of this.pending.keys()) {
+      if (!seen.has(relativePath)) this.pending.delete(relativePath);
+    }
+  }
+
+  private async listFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) files.push(...await this.listFiles(fullPath));
+      else if (entry.isFile()) files.push(fullPath);
+    }
+    return files;
+  }
+
+  private async ingest(filePath: string, relativePath: string, size: number, mtimeMs: number): Promise<void> {
+    let record: InboxFileRecord;
+    try {
+      const ingested = await ingestDocument(
+        this.queueService,
+        this.uploadDir,
+        path.basename(relativePath),
+        target => fs.copyFile(filePath, target)
+      );
+      record = { size, mtimeMs, ...ingested, ingestedAt: new Date().toISOString() };
+      if (ingested.status === 'queued') {
+        this.awaitingTaskIds.add(ingested.taskId);
+        console.log(`[INBOX] Queued ${relativePath} as task ${ingested.taskId}`);
+      } else {
+        console.log(`[INBOX] Skipped ${relativePath}, same content as task ${ingested.taskId}`);
+      }
+    } catch (error) {
+      // Recorded so a broken file is not retried every scan; it is picked up again once it changes
+      record = { size, mtimeMs, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error', ingestedAt: new Date().toISOString() };
+      console.error(`[INBOX] Failed to ingest ${relativePath}:`, error);
+    }
+
+    inboxFiles(this.storage).put({ ...record, path: relativePath });
+  }
+
+  // Re-run the saved agent queries once every document of the current batch is processed
+  private async checkAwaitingTasks(): Promise<void> {
+    if (this.awaitingTaskIds.size === 0) return;
+
+    let completed = 0;
+    for (const taskId of this.awaitingTaskIds) {
+      const task = await this.queueService.getTask(taskId);
+      if (task && (task.status === 'pending' || task.status === 'processing')) return;
+      if (task?.status === 'completed') completed++;
+    }
+
+    const batchSize = this.awaitingTaskIds.size;
+    this.awaitingTaskIds.clear();
+    console.log(`[INBOX] Batch of ${batchSize} documents processed (${completed} completed)`);
+
+    if (completed > 0 && inboxQueries(this.storage).count() > 0) {
+      // Runs in the background so scanning continues; consecutive batches run one after another
+      this.agentRuns = this.agentRuns
+        .then(() => this.runAgentQueries())
+        .catch(error => console.error('[INBOX] Re-running agent queries failed:', error));
+    }
+  }
+
+  private async runAgentQueries(): Promise<void> {
+    for (const query of inboxQueries(this.storage).all()) {
+      console.log(`[INBOX] Re-running ${query.agentType} agent query: "${query.userQuery}"`);
+      try {
+        query.lastQueueKey = await startAgentRun(query.agentType, query.userQuery);
+        query.lastError = undefined;
+      } catch (error) {
+        query.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`[INBOX] Agent query ${query.id} failed:`, error);
+      }
+      query.lastRunAt = new Date().toISOString();
+      try {
+        // Skipped if the query was removed while the agents ran
+        this.storage.transaction(() => {
+          if (inboxQueries(this.storage).get(query.id)) inboxQueries(this.storage).put(query);
+        });
+      } catch (error) {
+        console.error(`[INBOX] Failed to record the run of agent query ${query.id}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, ModelCallKind, ModelCompletion, ModelRequest } from './llmProvider';
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: string = 'anthropic';
+  private client: Anthropic | null = null;
+
+  defaultModel(kind: ModelCallKind): string {
+    return kind === 'reasoning' ? 'claude-sonnet-4-5' : 'claude-haiku-4-5';
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('Anthropic API key not found. Please configure ANTHROPIC_API_KEY environment variable.');
+      }
+      // Rate limits and transient errors are retried in ModelUtils, where the shared limiter holds back all callers
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  async complete(request: ModelRequest): Promise<ModelCompletion> {
+    const params = {
+      model: request.model,
+      system: request.systemPrompt,
+      messages: [{ role: 'user' as const, content: request.userPrompt }],
+      max_tokens: request.kind === 'reasoning' ? 8000 : 4000,
+      temperature: request.kind === 'reasoning' ? 0.2 : 0.7
+    };
+    const message = request.onText
+      ? await this.getClient().messages.stream(params, { signal: request.signal }).on('text', request.onText).finalMessage()
+      : await this.getClient().messages.create(params, { signal: request.signal });
+
+    const text = message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim();
+
+    return {
+      text,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        reasoningTokens: 0
+      },
+      raw: message
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { LLMProvider, ModelCallKind, ModelCompletion, ModelRequest, TokenUsage } from './llmProvider';
+
+// record: always call the model and overwrite the cassette
+// replay: only serve recorded responses, a miss is an error (no network)
+// record-missing: serve recorded responses, call the model and record on a miss
+export type CassetteMode = 'record' | 'replay' | 'record-missing';
+
+export interface CassetteEntry {
+  key: string;
+  kind: ModelCallKind;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  text: string;
+  usage?: TokenUsage; // Usage of the original call, replayed so cost reports stay comparable
+  recordedAt: string;
+}
+
+export function parseCassetteMode(value: string | undefined): CassetteMode | null {
+  const mode = (value || '').trim().toLowerCase();
+  if (!mode || mode === 'off') {
+    return null;
+  }
+  if (mode === 'record' || mode === 'replay' || mode === 'record-missing') {
+    return mode;
+  }
+  throw new Error(`Unknown LLM_CASSETTE_MODE "${value}". Use one of: off, record, replay, record-missing`);
+}
+
+/**
+ * Cassette key: hash of system prompt + user prompt + model.
+ * The parts are length-prefixed so that moving text between prompts changes the key.
+ */
+export function cassetteKey(request: ModelRequest): string {
+  const hash = crypto.createHash('sha256');
+  for (const part of [request.model, request.systemPrompt, request.userPrompt]) {
+    hash.update(`${part.length}:`);
+    hash.update(part);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Wraps another provider and records prompt -> response pairs to disk (one JSON file per key),
+ * so agent runs over a document set can be replayed offline and deterministically.
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(
+    private inner: LLMProvider,
+    private mode: CassetteMode,
+    private cassetteDir: string = process.env.LLM_CASSETTE_DIR || path.join(process.cwd(), 'data', 'cassettes')
+  ) {
+    this.name = inner.name;
+    console.log(`[CASSETTE] Mode: ${mode}, directory: ${this.cassetteDir}`);
+  }
+
+  defaultModel(kind: ModelCallKind): string {
+    return this.inner.defaultModel(kind);
+  }
+
+  async complete(request: ModelRequest): Promise<ModelCompletion> {
+    const key = cassetteKey(request);
+
+    if (this.mode !== 'record') {
+      const entry = await this.read(key);
+      if (entry) {
+        console.log(`[CASSETTE] Replaying ${key.substring(0, 12)} (${request.model})`);
+        return { text: entry.text, usage: entry.usage };
+      }
+      if (this.mode === 'replay') {
+        throw new Error(`Cassette miss for ${request.kind} call to ${request.model} (key ${key}) in replay mode`);
+      }
+    }
+
+    const completion = await this.inner.complete(request);
+
+    // Failed/empty completions are not recorded so a later run can retry them
+    if (completion.text) {
+      await this.write({
+        key,
+        kind: request.kind,
+        model: request.model,
+        systemPrompt: request.systemPrompt,
+        userPrompt: request.userPrompt,
+        text: completion.text,
+        usage: completion.usage,
+        recordedAt: new Date().toISOString()
+      });
+      console.log(`[CASSETTE] Recorded ${key.substring(0, 12)} (${request.model})`);
+    }
+
+    return completion;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.cassetteDir, `${key}.json`);
+  }
+
+  private async read(key: string): Promise<CassetteEntry | null> {
+    try {
+      const data = await fs.readFile(this.entryPath(key), 'utf-8');
+      return JSON.parse(data) as CassetteEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[CASSETTE] Failed to read cassette ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private async write(entry: CassetteEntry): Promise<void> {
+    await fs.mkdir(this.cassetteDir, { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated cassette behind
+    const target = this.entryPath(entry.key);
+    const tempPath = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry, null, 2));
+    await fs.rename(tempPath, target);
+  }
+}
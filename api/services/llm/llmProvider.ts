@@ -0,0 +1,83 @@
+import { OpenAIProvider } from './openaiProvider';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { CassetteProvider, parseCassetteMode } from './cassetteProvider';
+
+// Reasoning calls are analysis/JSON extraction, writing calls are long-form generation
+export type ModelCallKind = 'reasoning' | 'writing';
+
+export interface ModelRequest {
+  kind: ModelCallKind;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  signal?: AbortSignal; // Aborts the HTTP request when the task is cancelled
+  onText?: (delta: string) => void; // Receives the answer while it is generated, from providers that stream
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes reasoning tokens
+  reasoningTokens: number;
+}
+
+export interface ModelCompletion {
+  text: string;
+  usage?: TokenUsage;
+  raw?: unknown; // Provider response, kept for logging
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  defaultModel(kind: ModelCallKind): string;
+  complete(request: ModelRequest): Promise<ModelCompletion>;
+}
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'fixture';
+
+let activeProvider: LLMProvider | null = null;
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'fixture':
+      return new FixtureProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: openai, openai-compatible, anthropic, fixture`);
+  }
+}
+
+/**
+ * Get the configured LLM provider (LLM_PROVIDER, defaults to openai).
+ * The provider is created lazily so that importing ModelUtils never requires credentials.
+ * When LLM_CASSETTE_MODE is set the provider is wrapped in a record/replay cassette.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    const name = (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase();
+    const provider = createProvider(name);
+    const cassetteMode = parseCassetteMode(process.env.LLM_CASSETTE_MODE);
+    activeProvider = cassetteMode ? new CassetteProvider(provider, cassetteMode) : provider;
+    console.log(`[LLM PROVIDER] Using provider: ${activeProvider.name}${cassetteMode ? ` (cassette: ${cassetteMode})` : ''}`);
+  }
+  return activeProvider;
+}
+
+// Replace the active provider (used by scripts and when switching config at runtime)
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Resolve the model name for a call kind, honouring LLM_REASONING_MODEL / LLM_WRITING_MODEL overrides
+ */
+export function resolveModel(provider: LLMProvider, kind: ModelCallKind): string {
+  const override = kind === 'reasoning' ? process.env.LLM_REASONING_MODEL : process.env.LLM_WRITING_MODEL;
+  return override?.trim() || provider.defaultModel(kind);
+}
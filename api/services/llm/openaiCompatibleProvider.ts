@@ -0,0 +1,33 @@
+import OpenAI from 'openai';
+import { ModelCallKind, ModelCompletion, ModelRequest } from './llmProvider';
+import { OpenAIProvider } from './openaiProvider';
+
+/**
+ * Any server speaking the OpenAI Chat Completions protocol (llama.cpp server, Ollama, vLLM, LM Studio).
+ * Local servers rarely implement the Responses API, so both call kinds use Chat Completions.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+  private compatibleClient: OpenAI | null = null;
+
+  defaultModel(kind: ModelCallKind): string {
+    return process.env.LLM_MODEL?.trim() || 'local-model';
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.compatibleClient) {
+      this.compatibleClient = new OpenAI({
+        baseURL: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        // Most local servers ignore the key, but the SDK refuses to start without one
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        maxRetries: 0 // Rate limits and transient errors are retried in ModelUtils
+      });
+    }
+    return this.compatibleClient;
+  }
+
+  async complete(request: ModelRequest): Promise<ModelCompletion> {
+    // Lower temperature for reasoning calls since they mostly have to return strict JSON
+    return this.chatCompletion(request, request.kind === 'reasoning' ? 0.2 : 0.7);
+  }
+}
@@ -0,0 +1,116 @@
+import OpenAI from 'openai';
+import { LLMProvider, ModelCallKind, ModelCompletion, ModelRequest } from './llmProvider';
+
+/**
+ * OpenAI provider: reasoning calls go through the Responses API with medium effort,
+ * writing calls through Chat Completions
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  private client: OpenAI | null = null;
+
+  defaultModel(kind: ModelCallKind): string {
+    return kind === 'reasoning' ? 'o4-mini' : 'gpt-4o-mini';
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI API key not found. Please configure OPENAI_API_KEY environment variable.');
+      }
+      // Rate limits and transient errors are retried in ModelUtils, where the shared limiter holds back all callers
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+    }
+    return this.client;
+  }
+
+  async complete(request: ModelRequest): Promise<ModelCompletion> {
+    if (request.kind === 'reasoning') {
+      const params = {
+        model: request.model,
+        reasoning: { effort: 'medium' as const },
+        input: [
+          { role: 'system' as const, content: request.systemPrompt },
+          { role: 'user' as const, content: request.userPrompt }
+        ]
+      };
+      const onText = request.onText;
+      const completion = onText
+        ? await this.getClient().responses.stream(params, { signal: request.signal })
+          .on('response.output_text.delta', event => onText(event.delta))
+          .finalResponse()
+        : await this.getClient().responses.create(params, { signal: request.signal });
+
+      return {
+        text: completion.output_text?.trim() || '',
+        usage: completion.usage ? {
+          inputTokens: completion.usage.input_tokens,
+          outputTokens: completion.usage.output_tokens,
+          reasoningTokens: completion.usage.output_tokens_details?.reasoning_tokens || 0
+        } : undefined,
+        raw: completion
+      };
+    }
+
+    return this.chatCompletion(request, 0.7);
+  }
+
+  protected async chatCompletion(request: ModelRequest, temperature: number): Promise<ModelCompletion> {
+    const params = {
+      model: request.model,
+      messages: [
+        { role: 'system' as const, content: request.systemPrompt },
+        { role: 'user' as const, content: request.userPrompt }
+      ],
+      temperature,
+      max_tokens: 4000
+    };
+    if (request.onText) {
+      return this.streamChatCompletion(params, request.onText, request.signal);
+    }
+    const completion = await this.getClient().chat.completions.create(params, { signal: request.signal });
+
+    return {
+      text: completion.choices[0]?.message?.content?.trim() || '',
+      usage: completion.usage ? {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+        reasoningTokens: completion.usage.completion_tokens_details?.reasoning_tokens || 0
+      } : undefined,
+      raw: completion
+    };
+  }
+
+  private async streamChatCompletion(
+    params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    onText: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<ModelCompletion> {
+    const stream = await this.getClient().chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true } // Usage comes with the last chunk
+    }, { signal });
+
+    let text = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      usage = chunk.usage || usage;
+    }
+
+    return {
+      text: text.trim(),
+      usage: usage ? {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || 0
+      } : undefined,
+      raw: { text, usage }
+    };
+  }
+}
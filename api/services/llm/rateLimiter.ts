@@ -0,0 +1,186 @@
+// Interactive calls (chat) are served before batch work (document summaries, agents, memory compression)
+export type ModelCallLane = 'interactive' | 'batch';
+
+const LANES: ModelCallLane[] = ['interactive', 'batch'];
+const WINDOW_MS = 60000;
+
+export interface RateLimiterLimits {
+  requestsPerMinute: number; // 0 = unlimited
+  tokensPerMinute: number; // 0 = unlimited
+  maxConcurrent: number; // 0 = unlimited
+}
+
+// A granted request; its token estimate is replaced by the real usage on release
+export interface ModelCallPermit {
+  at: number;
+  tokens: number;
+}
+
+interface Waiter {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: (permit: ModelCallPermit) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Shared budget for model calls: requests and tokens per minute over a sliding window, plus a cap
+ * on concurrent requests. Waiting calls are served per lane, interactive first, and in arrival order
+ * within a lane. After a 429 the limiter is paused for everyone, so one caller's Retry-After also
+ * holds back the calls that would have hit the same limit.
+ */
+export class ModelRateLimiter {
+  private waiting: Record<ModelCallLane, Waiter[]> = { interactive: [], batch: [] };
+  private window: ModelCallPermit[] = []; // Requests started in the last minute
+  private active = 0;
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private rateLimitedResponses = 0;
+
+  constructor(private limits: RateLimiterLimits) {}
+
+  /**
+   * Wait for room in the budget. Rejects with the abort reason if the signal is aborted while waiting.
+   * Retries of rate-limited calls go to the front of their lane.
+   */
+  acquire(lane: ModelCallLane, estimatedTokens: number, signal?: AbortSignal, front = false): Promise<ModelCallPermit> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens: estimatedTokens, enqueuedAt: Date.now(), resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.waiting[lane] = this.waiting[lane].filter(w => w !== waiter);
+          reject(signal.reason);
+          this.pump();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      if (front) this.waiting[lane].unshift(waiter);
+      else this.waiting[lane].push(waiter);
+      this.pump();
+    });
+  }
+
+  // Give the concurrency slot back and count the tokens actually used, when the provider reported them
+  release(permit: ModelCallPermit, actualTokens?: number): void {
+    this.active--;
+    if (actualTokens !== undefined) permit.tokens = actualTokens;
+    this.pump();
+  }
+
+  // Count a rate-limited response for the status, whether or not it is retried
+  recordRateLimited(): void {
+    this.rateLimitedResponses++;
+  }
+
+  // Hold back all calls, e.g. for the Retry-After of a 429
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.pump();
+  }
+
+  getStatus() {
+    const now = Date.now();
+    this.trimWindow(now);
+    const oldest = LANES.flatMap(lane => this.waiting[lane]).reduce((min, w) => Math.min(min, w.enqueuedAt), now);
+    return {
+      limits: this.limits,
+      queueDepth: this.waiting.interactive.length + this.waiting.batch.length,
+      waiting: { interactive: this.waiting.interactive.length, batch: this.waiting.batch.length },
+      longestWaitMs: now - oldest,
+      active: this.active,
+      requestsLastMinute: this.window.length,
+      tokensLastMinute: this.usedTokens(),
+      pausedUntil: this.pausedUntil > now ? new Date(this.pausedUntil).toISOString() : null,
+      rateLimitedResponses: this.rateLimitedResponses
+    };
+  }
+
+  // Start as many waiting calls as the budget allows, then wake up again when it frees up
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (;;) {
+      const lane = LANES.find(l => this.waiting[l].length > 0);
+      if (!lane) return;
+
+      const now = Date.now();
+      this.trimWindow(now);
+      const waiter = this.waiting[lane][0];
+      const waitMs = this.waitTime(waiter.tokens, now);
+      if (waitMs === null) return; // Concurrency limit, pumped again on release
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.pump(), waitMs);
+        return;
+      }
+
+      this.waiting[lane].shift();
+      if (waiter.onAbort) waiter.signal!.removeEventListener('abort', waiter.onAbort);
+      const permit: ModelCallPermit = { at: now, tokens: waiter.tokens };
+      this.window.push(permit);
+      this.active++;
+      waiter.resolve(permit);
+    }
+  }
+
+  // Milliseconds until a call of this size fits, 0 if it fits now, null if it waits for a release
+  private waitTime(tokens: number, now: number): number | null {
+    const { requestsPerMinute, tokensPerMinute, maxConcurrent } = this.limits;
+    if (this.pausedUntil > now) return this.pausedUntil - now;
+    if (maxConcurrent > 0 && this.active >= maxConcurrent) return null;
+
+    const untilOldestExpires = this.window.length > 0 ? this.window[0].at + WINDOW_MS - now : 0;
+    if (requestsPerMinute > 0 && this.window.length >= requestsPerMinute) return untilOldestExpires;
+    // A call larger than the whole budget still runs once the window is empty
+    if (tokensPerMinute > 0 && this.window.length > 0 && this.usedTokens() + tokens > tokensPerMinute) {
+      return untilOldestExpires;
+    }
+    return 0;
+  }
+
+  private trimWindow(now: number): void {
+    while (this.window.length > 0 && this.window[0].at <= now - WINDOW_MS) {
+      this.window.shift();
+    }
+  }
+
+  private usedTokens(): number {
+    return this.window.reduce((sum, permit) => sum + permit.tokens, 0);
+  }
+}
+
+/**
+ * Delay requested by a rate-limited response: the retry-after-ms or retry-after header
+ * (seconds or an HTTP date) of OpenAI and Anthropic SDK errors.
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown })?.headers;
+  if (!headers) return undefined;
+  const header = (name: string): string | null | undefined =>
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, string | undefined>)[name];
+
+  const ms = parseFloat(header('retry-after-ms') || '');
+  if (!isNaN(ms)) return ms;
+
+  const retryAfter = header('retry-after');
+  if (!retryAfter) return undefined;
+  const seconds = parseFloat(retryAfter);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// 429 Too Many Requests, and 529 Overloaded from Anthropic
+export function isRateLimitError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429 || status === 529) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|529)\b|rate limit/i.test(message);
+}
@@ -0,0 +1,131 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createCanvas, Canvas, SKRSContext2D } from '@napi-rs/canvas';
+import { createWorker } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  pages: string[]; // Recognized text per page, in page order
+  confidence: number; // Mean Tesseract confidence (0-100) over the recognized pages
+  pagesProcessed: number;
+  pageCount: number;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas;
+  context: SKRSContext2D;
+}
+
+// pdf.js renders through a canvas factory; in Node we back it with @napi-rs/canvas
+class NodeCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(Math.ceil(width), Math.ceil(height));
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    canvasAndContext.canvas.width = Math.ceil(width);
+    canvasAndContext.canvas.height = Math.ceil(height);
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+  }
+}
+
+/**
+ * Local OCR for image-only PDFs: rasterizes pages with pdf.js and recognizes them with tesseract.js.
+ * Language data comes from OCR_LANG_PATH, an installed @tesseract.js-data/<lang> package,
+ * or is downloaded on first use.
+ */
+export class OcrService {
+  private language: string;
+  private maxPages: number;
+  private scale: number;
+
+  constructor() {
+    this.language = process.env.OCR_LANGUAGE || 'eng';
+    this.maxPages = parseInt(process.env.OCR_MAX_PAGES || '50', 10);
+    this.scale = parseFloat(process.env.OCR_RENDER_SCALE || '2');
+  }
+
+  async recognizePdf(pdfBuffer: Buffer, logPrefix: string = '[OCR]'): Promise<OcrResult> {
+    // Loaded lazily, pdf.js is only needed for documents without a usable text layer
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf');
+    const canvasFactory = new NodeCanvasFactory();
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      canvasFactory,
+      disableFontFace: true,
+      isEvalSupported: false
+    }).promise;
+
+    const pagesToProcess = Math.min(document.numPages, this.maxPages);
+    if (pagesToProcess < document.numPages) {
+      console.warn(`${logPrefix} Document has ${document.numPages} pages, only the first ${pagesToProcess} will be recognized (OCR_MAX_PAGES)`);
+    }
+
+    const cachePath = path.join(process.cwd(), 'data', 'tesseract');
+    await fs.mkdir(cachePath, { recursive: true });
+
+    // Languages are loaded through reinitialize: a failed load inside createWorker never
+    // settles its promise and leaves the worker thread running
+    const worker = await createWorker([], undefined, {
+      langPath: this.resolveLangPath(),
+      cachePath,
+      // Without a handler tesseract.js rethrows worker errors outside the promise chain
+      errorHandler: (error: unknown) => console.error(`${logPrefix} Tesseract worker error:`, error)
+    });
+
+    const pageTexts: string[] = [];
+    let confidenceSum = 0;
+
+    try {
+      await worker.reinitialize(this.language);
+
+      for (let pageNumber = 1; pageNumber <= pagesToProcess; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: this.scale });
+        const canvasAndContext = canvasFactory.create(viewport.width, viewport.height);
+
+        await page.render({
+          canvasContext: canvasAndContext.context as unknown as CanvasRenderingContext2D,
+          viewport
+        }).promise;
+
+        const image = canvasAndContext.canvas.toBuffer('image/png');
+        canvasFactory.destroy(canvasAndContext);
+        page.cleanup();
+
+        const { data } = await worker.recognize(image);
+        pageTexts.push(data.text);
+        confidenceSum += data.confidence;
+        console.log(`${logPrefix} Page ${pageNumber}/${pagesToProcess}: ${data.text.length} chars, confidence ${data.confidence.toFixed(1)}`);
+      }
+    } finally {
+      await worker.terminate();
+      await document.destroy();
+    }
+
+    return {
+      text: pageTexts.join('\n\n'),
+      pages: pageTexts,
+      confidence: pagesToProcess > 0 ? confidenceSum / pagesToProcess : 0,
+      pagesProcessed: pagesToProcess,
+      pageCount: document.numPages
+    };
+  }
+
+  private resolveLangPath(): string | undefined {
+    if (process.env.OCR_LANG_PATH) {
+      return process.env.OCR_LANG_PATH;
+    }
+    // Bundled language data keeps OCR working without network access
+    try {
+      return require(`@tesseract.js-data/${this.language}`).langPath;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import { PageMapEntry } from '../types';
+
+export interface PageBlock {
+  type: 'heading' | 'paragraph';
+  text: string;
+}
+
+export interface PageContent {
+  pageNumber: number;
+  blocks: PageBlock[];
+}
+
+interface TextLine {
+  text: string;
+  y: number;
+  height: number;
+}
+
+// Subset of a pdf.js text content item used for layout
+interface TextItem {
+  str: string;
+  transform: number[]; // [scaleX, skewX, skewY, scaleY, x, y]
+  width?: number;
+  height?: number;
+}
+
+const normalizeSpaces = (text: string) => text.replace(/[ \t ]+/g, ' ').trim();
+
+// Lower median: with as many paragraph gaps as line gaps, the line spacing should win
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+// Short, all-caps lines without sentence punctuation ("FOR RELEASE AT 2:00 P.M.")
+function looksLikeCapsHeading(text: string): boolean {
+  const letters = text.replace(/[^A-Za-z]/g, '');
+  return text.length >= 3 && text.length <= 80 && letters.length >= 3
+    && letters === letters.toUpperCase() && !/[;,]$/.test(text);
+}
+
+/**
+ * Group pdf.js text items into lines (items sharing a baseline), top to bottom
+ */
+function groupLines(items: TextItem[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: { parts: string[]; y: number; height: number; lastX: number } | null = null;
+
+  for (const item of items) {
+    if (!item.str) continue;
+    const x = item.transform[4];
+    const y = item.transform[5];
+    // The font size from the text matrix; item.height is unreliable in the pdf.js bundled with pdf-parse
+    const height = Math.abs(item.transform[3]) || item.height || 0;
+
+    if (current && Math.abs(current.y - y) <= Math.max(1, height * 0.2)) {
+      // Same line: add a space when there is a visible gap between items
+      const previous = current.parts[current.parts.length - 1] || '';
+      const gap = x - current.lastX;
+      if (gap > height * 0.15 && !previous.endsWith(' ') && !item.str.startsWith(' ')) {
+        current.parts.push(' ');
+      }
+      current.parts.push(item.str);
+      current.height = Math.max(current.height, height);
+    } else {
+      if (current) {
+        lines.push({ text: normalizeSpaces(current.parts.join('')), y: current.y, height: current.height });
+      }
+      current = { parts: [item.str], y, height, lastX: x };
+    }
+    current.lastX = x + (item.width || 0);
+  }
+
+  if (current) {
+    lines.push({ text: normalizeSpaces(current.parts.join('')), y: current.y, height: current.height });
+  }
+
+  return lines.filter(line => line.text.length > 0);
+}
+
+/**
+ * Build headings and paragraphs from the lines of a page. Headings are lines set noticeably larger
+ * than the body text (or short all-caps lines); paragraphs break on vertical gaps wider than the
+ * normal line spacing.
+ */
+function blocksFromLines(lines: TextLine[]): PageBlock[] {
+  const bodyHeight = median(lines.map(line => line.height)) || 10;
+  const spacings = lines.slice(1).map((line, i) => Math.abs(lines[i].y - line.y)).filter(s => s > 0);
+  const lineSpacing = median(spacings) || bodyHeight * 1.2;
+
+  const blocks: PageBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      // Re-join words hyphenated across line breaks
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ').replace(/([a-z])- ([a-z])/g, '$1$2') });
+      paragraph = [];
+    }
+  };
+
+  lines.forEach((line, i) => {
+    const isHeading = line.text.length <= 120 && /[A-Za-z]/.test(line.text)
+      && (line.height >= bodyHeight * 1.2 || looksLikeCapsHeading(line.text));
+
+    if (isHeading) {
+      flushParagraph();
+      const previous = blocks[blocks.length - 1];
+      const previousLine = lines[i - 1];
+      // Headings wrapped over two lines become one heading
+      if (previous?.type === 'heading' && previousLine && Math.abs(previousLine.y - line.y) <= Math.max(lineSpacing, line.height) * 1.5) {
+        previous.text = `${previous.text} ${line.text}`;
+      } else {
+        blocks.push({ type: 'heading', text: line.text });
+      }
+      return;
+    }
+
+    const previousLine = lines[i - 1];
+    if (previousLine && Math.abs(previousLine.y - line.y) > lineSpacing * 1.4) {
+      flushParagraph();
+    }
+    paragraph.push(line.text);
+  });
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * pdf-parse page renderer that records the layout of every page into `pages`
+ * and returns the page text in reading order.
+ */
+export function createLayoutPageRenderer(pages: PageContent[]) {
+  return async (pageData: any): Promise<string> => {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    const lines = groupLines(textContent.items as TextItem[]);
+    const blocks = blocksFromLines(lines);
+    pages.push({ pageNumber: pageData.pageIndex + 1, blocks });
+    return blocks.map(block => block.text).join('\n\n');
+  };
+}
+
+/**
+ * Layout for plain page text (OCR output): blank lines separate paragraphs,
+ * short all-caps lines standing on their own are treated as headings.
+ */
+export function pageContentFromText(pageNumber: number, text: string): PageContent {
+  const blocks: PageBlock[] = [];
+  for (const chunk of text.split(/\n\s*\n/)) {
+    const lines = chunk.split('\n').map(normalizeSpaces).filter(Boolean);
+    if (lines.length === 0) continue;
+    if (lines.length === 1 && looksLikeCapsHeading(lines[0])) {
+      blocks.push({ type: 'heading', text: lines[0] });
+    } else {
+      blocks.push({ type: 'paragraph', text: lines.join(' ').replace(/([a-z])- ([a-z])/g, '$1$2') });
+    }
+  }
+  return { pageNumber, blocks };
+}
+
+// Plain text of all pages with paragraph breaks, used for summarization
+export function pagesToPlainText(pages: PageContent[]): string {
+  return pages
+    .map(page => page.blocks.map(block => block.text).join('\n\n'))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Render pages as markdown sections ("### Page N", headings as "####") and build the page map.
+ * Offsets in the page map are relative to the returned markdown. Documents without pages
+ * skip the page sections.
+ */
+export function renderPagesMarkdown(
+  pages: PageContent[],
+  paginated: boolean = true
+): { markdown: string; pageMap: PageMapEntry[] } {
+  let markdown = '';
+  const pageMap: PageMapEntry[] = [];
+
+  for (const page of pages) {
+    const startOffset = markdown.length;
+    if (paginated) {
+      markdown += `### Page ${page.pageNumber}\n\n`;
+    }
+    for (const block of page.blocks) {
+      markdown += block.type === 'heading' ? `#### ${block.text}\n\n` : `${block.text}\n\n`;
+    }
+    pageMap.push({
+      page: page.pageNumber,
+      startOffset,
+      endOffset: markdown.length,
+      charCount: page.blocks.reduce((sum, block) => sum + block.text.length, 0),
+      headings: page.blocks.filter(block => block.type === 'heading').map(block => block.text)
+    });
+  }
+
+  return { markdown: markdown.trimEnd(), pageMap };
+}
+
+const normalizeForSearch = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Find the page a quote comes from, using the page map of the extracted markdown.
+ * Matching ignores case, punctuation and whitespace; long quotes fall back to their first words
+ * since models often shorten or splice quotes.
+ */
+export function findQuotePage(markdown: string, pageMap: PageMapEntry[], quote: string): number | null {
+  const needle = normalizeForSearch(quote);
+  if (!needle) return null;
+
+  const candidates = [needle];
+  const words = needle.split(' ');
+  if (words.length > 8) {
+    candidates.push(words.slice(0, 8).join(' '));
+  }
+
+  for (const candidate of candidates) {
+    for (const entry of pageMap) {
+      if (normalizeForSearch(markdown.slice(entry.startOffset, entry.endOffset)).includes(candidate)) {
+        return entry.page;
+      }
+    }
+  }
+  return null;
+}
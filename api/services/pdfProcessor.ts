@@ -1,20 +1,71 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { Stats } from 'fs';
 import pdfParse from 'pdf-parse';
 import { callReasoningModel, extractJsonFromResponse } from './ModelUtils';
-import { PDFTask, PDFProcessingResult } from '../types';
+import { PDFTask, PDFProcessingResult, PageMapEntry } from '../types';
 import { IndicesDatabaseService } from './indicesDatabaseService';
+import { currentWorkspace } from './workspaceContext';
+import { TextChunk, splitIntoChunks, selectChunks } from './textChunker';
+import { PageContent, renderPagesMarkdown } from './pageLayout';
+import { DocumentExtraction } from './extractors/documentExtractor';
+import { getExtractor, resolveMimeType } from './extractors/extractorRegistry';
+import { wrapError } from './retryPolicy';
+
+interface SummaryResult {
+  analysis: any;
+  chunkCount: number; // Chunks that were summarized
+  totalChunks: number;
+  coverage: number; // Percentage of the extracted text that was read
+}
+
+// Output of the extraction stage, handed to the summarization stage
+export interface ExtractedDocument {
+  extraction: DocumentExtraction;
+  stats: Stats;
+  extractedTextPath: string;
+  pageMap: PageMapEntry[];
+}
+
+interface ChunkSummary {
+  chunk: TextChunk;
+  summary: string;
+  keyPoints: string[];
+  dates: string[];
+}
+
+const SUMMARY_SYSTEM_PROMPT = 'You are a helpful assistant that analyzes documents and extracts structured information. You must respond with valid JSON only, without any markdown formatting or code blocks.';
+
+const SUMMARY_RESPONSE_FORMAT = `Please respond with a JSON object containing:
+1. ONE_SENTENCE_SUMMARY: A concise one-sentence summary of the document
+2. BULLET_POINTS: Array of 3-6 key bullet points highlighting main topics and important details
+3. INFERRED_TIMESTAMP: If you can identify a clear date or timestamp from the document content (like "created on", "dated", "published", "issued", etc.), provide it in ISO 8601 format (YYYY-MM-DDTHH:mm:ss.sssZ). If no clear timestamp is found, respond with "NOT_FOUND".
+
+Example response:
+{
+  "ONE_SENTENCE_SUMMARY": "This document discusses quarterly financial results showing positive growth.",
+  "BULLET_POINTS": [
+    "Revenue increased by 15% compared to previous quarter",
+    "New product launches contributed significantly to growth",
+    "Market expansion into emerging markets shows promise"
+  ],
+  "INFERRED_TIMESTAMP": "2024-03-15T10:00:00.000Z"
+}
+
+Respond only with the JSON object, no additional text or markdown formatting.`;
 
 export class PdfProcessor {
-  private extractedTextsDir: string;
   private indicesDb: IndicesDatabaseService;
 
   constructor() {
-    this.extractedTextsDir = path.join(process.cwd(), 'extracted-texts');
-    this.ensureDirectoriesExist();
     this.indicesDb = new IndicesDatabaseService();
   }
 
+  // Texts are extracted into the directory of the workspace the task belongs to
+  private get extractedTextsDir(): string {
+    return currentWorkspace().directories['extracted-texts'];
+  }
+
   private async ensureDirectoriesExist(): Promise<void> {
     try {
       await fs.mkdir(this.extractedTextsDir, { recursive: true });
@@ -23,24 +74,33 @@ export class PdfProcessor {
     }
   }
 
-  private async saveExtractedTextToFile(filename: string, extractedText: string): Promise<string> {
+  private async saveExtractedTextToFile(
+    filename: string,
+    extractedText: string,
+    pages: PageContent[],
+    paginated: boolean
+  ): Promise<{ filePath: string; pageMap: PageMapEntry[] }> {
     // Create a safe filename for the markdown file
     const safeFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
     const markdownFilename = `${safeFilename}_extracted.md`;
+    await this.ensureDirectoriesExist();
     const filePath = path.join(this.extractedTextsDir, markdownFilename);
     
+    const { markdown, pageMap } = renderPagesMarkdown(pages, paginated);
+    
     // Create markdown content with metadata
-    const markdownContent = `# Extracted Text: ${filename}
+    const header = `# Extracted Text: ${filename}
 
 ## Document Information
 - **Original Filename**: ${filename}
 - **Extraction Date**: ${new Date().toISOString()}
 - **Text Length**: ${extractedText.length} characters
 - **Word Count**: ${extractedText.split(/\s+/).length} words
-
+${paginated ? `- **Pages**: ${pages.length}\n` : ''}
 ## Extracted Content
 
-${extractedText}
+`;
+    const markdownContent = `${header}${markdown}
 
 ---
 *This file was automatically generated by the PDF Processor.*
@@ -50,95 +110,171 @@ ${extractedText}
     await fs.writeFile(filePath, markdownContent, 'utf8');
     console.log(`[PDF PROCESSOR] Saved extracted text to: ${filePath}`);
     
-    return filePath;
+    // Page map offsets point into the written file
+    const absolutePageMap = pageMap.map(entry => ({
+      ...entry,
+      startOffset: entry.startOffset + header.length,
+      endOffset: entry.endOffset + header.length
+    }));
+    
+    return { filePath, pageMap: absolutePageMap };
   }
 
-  private async extractTextFromPDF(filePath: string): Promise<string> {
+  private async extractText(task: PDFTask): Promise<DocumentExtraction> {
+    const mimeType = resolveMimeType(task.filename);
+    const extractor = mimeType ? getExtractor(mimeType) : undefined;
+    if (!extractor) {
+      throw new Error(`Unsupported document type: ${task.filename}`);
+    }
+    
     try {
-      const pdfBuffer = await fs.readFile(filePath);
-      const pdfData = await pdfParse(pdfBuffer);
-      
-      // Clean up the extracted text
-      let text = pdfData.text;
-      
-      // Basic text cleanup
-      text = text
-        .replace(/\n\s*\n/g, '\n\n') // Remove excessive line breaks
-        .replace(/\s+/g, ' ') // Normalize whitespace
-        .trim();
-      
-      if (!text || text.length < 10) {
-        throw new Error('No readable text found in PDF - document may be image-based or encrypted');
-      }
-      
-      return text;
-      
+      console.log(`[PDF PROCESSOR] Extracting ${task.filename} with the ${extractor.name} extractor`);
+      return await extractor.extract(task.path);
     } catch (error) {
       console.error('Text extraction error:', error);
-      throw new Error(`Text extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapError(`Text extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
     }
   }
 
-  private async generateSummary(text: string, filename: string): Promise<any> {
+  private async generateSummary(text: string, filename: string, signal?: AbortSignal): Promise<SummaryResult> {
     try {
-      // Check if OpenAI API key is available
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error('OpenAI API key not found. Please configure OPENAI_API_KEY environment variable.');
+      // Long documents are summarized chunk by chunk and the partial results merged (map-reduce)
+      const chunkChars = parseInt(process.env.SUMMARY_CHUNK_CHARS || '12000', 10); // Roughly 3000 tokens
+      const maxChunks = parseInt(process.env.SUMMARY_MAX_CHUNKS || '20', 10);
+      const chunks = splitIntoChunks(text, chunkChars);
+      
+      if (chunks.length <= 1) {
+        const analysis = await this.summarizeWholeDocument(text, filename, signal);
+        return { analysis, chunkCount: chunks.length, totalChunks: chunks.length, coverage: 100 };
       }
       
-      // Truncate text if it's too long (GPT has token limits)
-      const maxChars = 12000; // Roughly 3000 tokens
-      const truncatedText = text.length > maxChars ? text.substring(0, maxChars) + '...' : text;
+      const selectedChunks = selectChunks(chunks, maxChunks);
+      if (selectedChunks.length < chunks.length) {
+        console.warn(`[PDF PROCESSOR] ${filename} has ${chunks.length} chunks, summarizing ${selectedChunks.length} spread over the document (SUMMARY_MAX_CHUNKS)`);
+      }
       
-      const systemPrompt = 'You are a helpful assistant that analyzes documents and extracts structured information. You must respond with valid JSON only, without any markdown formatting or code blocks.';
+      const partials = await this.summarizeChunks(selectedChunks, chunks.length, filename, signal);
+      if (partials.length === 0) {
+        throw new Error('All chunk summaries failed');
+      }
+      
+      const coveredChars = partials.reduce((sum, partial) => sum + partial.chunk.text.length, 0);
+      const coverage = Math.round((coveredChars / Math.max(text.length, 1)) * 1000) / 10;
+      console.log(`[PDF PROCESSOR] Merging ${partials.length}/${chunks.length} chunk summaries for ${filename} (${coverage}% of text)`);
       
-      const userPrompt = `Please analyze the following document content from "${filename}" and provide a comprehensive summary in JSON format.
+      const analysis = await this.mergeChunkSummaries(partials, chunks.length, coverage, filename, signal);
+      return { analysis, chunkCount: partials.length, totalChunks: chunks.length, coverage };
+      
+    } catch (error) {
+      console.error('Summary generation error:', error);
+      throw error;
+    }
+  }
+
+  private async summarizeWholeDocument(text: string, filename: string, signal?: AbortSignal): Promise<any> {
+    const userPrompt = `Please analyze the following document content from "${filename}" and provide a comprehensive summary in JSON format.
 
 Document content:
-${truncatedText}
+${text}
 
-Please respond with a JSON object containing:
-1. ONE_SENTENCE_SUMMARY: A concise one-sentence summary of the document
-2. BULLET_POINTS: Array of 3-6 key bullet points highlighting main topics and important details
-3. INFERRED_TIMESTAMP: If you can identify a clear date or timestamp from the document content (like "created on", "dated", "published", "issued", etc.), provide it in ISO 8601 format (YYYY-MM-DDTHH:mm:ss.sssZ). If no clear timestamp is found, respond with "NOT_FOUND".
+${SUMMARY_RESPONSE_FORMAT}`;
 
-Example response:
-{
-  "ONE_SENTENCE_SUMMARY": "This document discusses quarterly financial results showing positive growth.",
-  "BULLET_POINTS": [
-    "Revenue increased by 15% compared to previous quarter",
-    "New product launches contributed significantly to growth",
-    "Market expansion into emerging markets shows promise"
-  ],
-  "INFERRED_TIMESTAMP": "2024-03-15T10:00:00.000Z"
-}
+    return this.requestJson(SUMMARY_SYSTEM_PROMPT, userPrompt, 'summary', signal);
+  }
+
+  // Map step: summarize chunks a few at a time, skipping chunks whose call fails
+  private async summarizeChunks(chunks: TextChunk[], totalChunks: number, filename: string, signal?: AbortSignal): Promise<ChunkSummary[]> {
+    const concurrency = Math.max(1, parseInt(process.env.SUMMARY_CHUNK_CONCURRENCY || '3', 10));
+    const partials: ChunkSummary[] = [];
+    
+    for (let i = 0; i < chunks.length; i += concurrency) {
+      signal?.throwIfAborted();
+      const batch = chunks.slice(i, i + concurrency);
+      const results = await Promise.all(batch.map(async chunk => {
+        const userPrompt = `The following text is part ${chunk.index + 1} of ${totalChunks} of the document "${filename}".
+
+Text:
+${chunk.text}
+
+Please respond with a JSON object containing:
+1. CHUNK_SUMMARY: 2-3 sentences summarizing this part of the document
+2. KEY_POINTS: Array of up to 5 key points from this part, keeping concrete figures and names
+3. DATES: Array of dates that identify when the document was created, dated, published or issued (ISO 8601 where possible), with a few words of context each. Empty array if there are none.
 
 Respond only with the JSON object, no additional text or markdown formatting.`;
 
-      const response = await callReasoningModel(systemPrompt, userPrompt, '[PDF PROCESSOR]');
+        try {
+          const parsed = await this.requestJson(SUMMARY_SYSTEM_PROMPT, userPrompt, `chunk ${chunk.index + 1}/${totalChunks}`, signal);
+          return {
+            chunk,
+            summary: typeof parsed.CHUNK_SUMMARY === 'string' ? parsed.CHUNK_SUMMARY : '',
+            keyPoints: Array.isArray(parsed.KEY_POINTS) ? parsed.KEY_POINTS.map(String) : [],
+            dates: Array.isArray(parsed.DATES) ? parsed.DATES.map(String) : []
+          } as ChunkSummary;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.error(`[PDF PROCESSOR] Skipping chunk ${chunk.index + 1}/${totalChunks} of ${filename}:`, error);
+          return null;
+        }
+      }));
       
-      if (!response.success || !response.text) {
-        throw new Error(response.error || 'No response generated by OpenAI');
+      partials.push(...results.filter((result): result is ChunkSummary => result !== null));
+    }
+    
+    return partials;
+  }
+
+  // Reduce step: merge the partial summaries into the final summary structure
+  private async mergeChunkSummaries(
+    partials: ChunkSummary[],
+    totalChunks: number,
+    coverage: number,
+    filename: string,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const partialsText = partials.map(partial => {
+      const lines = [`Part ${partial.chunk.index + 1} of ${totalChunks}:`, `Summary: ${partial.summary}`];
+      if (partial.keyPoints.length > 0) {
+        lines.push('Key points:', ...partial.keyPoints.map(point => `- ${point}`));
       }
-      
-      console.log(`[PDF PROCESSOR] OpenAI response: ${response.text}`);
-      
-      // Extract and parse JSON from response
-      const jsonText = extractJsonFromResponse(response.text);
-      console.log(`[PDF PROCESSOR] Extracted JSON text: ${jsonText}`);
-      
-      try {
-        const parsedAnalysis = JSON.parse(jsonText);
-        console.log(`[PDF PROCESSOR] Parsed JSON analysis:`, parsedAnalysis);
-        return parsedAnalysis;
-      } catch (parseError) {
-        console.error('[PDF PROCESSOR] Error parsing JSON from response:', parseError);
-        throw new Error(`Failed to parse OpenAI response as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+      if (partial.dates.length > 0) {
+        lines.push(`Dates: ${partial.dates.join('; ')}`);
       }
-      
-    } catch (error) {
-      console.error('Summary generation error:', error);
-      throw error;
+      return lines.join('\n');
+    }).join('\n\n');
+
+    const userPrompt = `The document "${filename}" was too long to analyze at once, so it was summarized in parts (covering ${coverage}% of its text). Please combine the partial summaries below into a summary of the whole document in JSON format.
+
+Partial summaries:
+${partialsText}
+
+The document date is usually the one given at the start of the document; ignore dates that only refer to past events or future plans.
+
+${SUMMARY_RESPONSE_FORMAT}`;
+
+    return this.requestJson(SUMMARY_SYSTEM_PROMPT, userPrompt, 'merged summary', signal);
+  }
+
+  private async requestJson(systemPrompt: string, userPrompt: string, label: string, signal?: AbortSignal): Promise<any> {
+    const response = await callReasoningModel(systemPrompt, userPrompt, '[PDF PROCESSOR]', signal);
+    
+    if (!response.success || !response.text) {
+      throw wrapError(response.error || 'No response generated by OpenAI', response.cause);
+    }
+    
+    console.log(`[PDF PROCESSOR] OpenAI response (${label}): ${response.text}`);
+    
+    // Extract and parse JSON from response
+    const jsonText = extractJsonFromResponse(response.text);
+    console.log(`[PDF PROCESSOR] Extracted JSON text: ${jsonText}`);
+    
+    try {
+      const parsedAnalysis = JSON.parse(jsonText);
+      console.log(`[PDF PROCESSOR] Parsed JSON analysis:`, parsedAnalysis);
+      return parsedAnalysis;
+    } catch (parseError) {
+      console.error('[PDF PROCESSOR] Error parsing JSON from response:', parseError);
+      throw new Error(`Failed to parse OpenAI response as JSON: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
     }
   }
 
@@ -182,7 +318,16 @@ Respond only with the JSON object, no additional text or markdown formatting.`;
     }
   }
 
-  async process(task: PDFTask): Promise<PDFProcessingResult> {
+  // The signal cancels processing between stages and aborts in-flight model calls
+  async process(task: PDFTask, signal?: AbortSignal): Promise<PDFProcessingResult> {
+    const extracted = await this.extract(task, signal);
+    return this.summarize(task, extracted, signal);
+  }
+
+  /**
+   * First pipeline stage: extract the text and save it as markdown. Local work only, no model calls.
+   */
+  async extract(task: PDFTask, signal?: AbortSignal): Promise<ExtractedDocument> {
     console.log(`[PDF PROCESSOR] Starting processing for: ${task.filename} (Task ID: ${task.id})`);
     
     try {
@@ -196,17 +341,39 @@ Respond only with the JSON object, no additional text or markdown formatting.`;
       // Get file stats
       const stats = await fs.stat(task.path);
       
-      // Extract text from PDF - this is where the actual processing work begins
+      // Extract text from the document - this is where the actual processing work begins
       console.log(`[PDF PROCESSOR] Beginning text extraction from: ${task.filename}`);
-      const extractedText = await this.extractTextFromPDF(task.path);
+      const extraction = await this.extractText(task);
+      signal?.throwIfAborted();
       
       // Save extracted text to markdown file
       console.log(`[PDF PROCESSOR] Saving extracted text to file for: ${task.filename}`);
-      const extractedTextPath = await this.saveExtractedTextToFile(task.filename, extractedText);
+      const { filePath: extractedTextPath, pageMap } = await this.saveExtractedTextToFile(
+        task.filename,
+        extraction.text,
+        extraction.pages,
+        extraction.paginated
+      );
       
+      return { extraction, stats, extractedTextPath, pageMap };
+      
+    } catch (error) {
+      console.error(`Error processing PDF ${task.filename}:`, error);
+      throw wrapError(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+    }
+  }
+
+  /**
+   * Second pipeline stage: summarize the extracted text with the model and build the result.
+   */
+  async summarize(task: PDFTask, extracted: ExtractedDocument, signal?: AbortSignal): Promise<PDFProcessingResult> {
+    const { extraction, stats, extractedTextPath, pageMap } = extracted;
+    const extractedText = extraction.text;
+    
+    try {
       // Analyze document with AI
       console.log(`[PDF PROCESSOR] Analyzing document with AI for: ${task.filename}`);
-      const analysis = await this.generateSummary(extractedText, task.filename);
+      const { analysis, chunkCount, totalChunks, coverage } = await this.generateSummary(extractedText, task.filename, signal);
       
       // Extract data from parsed JSON analysis
       const inferredTimestamp = analysis.INFERRED_TIMESTAMP && analysis.INFERRED_TIMESTAMP !== 'NOT_FOUND' 
@@ -222,41 +389,45 @@ Respond only with the JSON object, no additional text or markdown formatting.`;
 
       // Note: Analysis scores (confidence/sentiment indices) have been removed from PDF processing
       
-      // Get page count from pdf-parse results
-      const pdfBuffer = await fs.readFile(task.path);
-      const pdfData = await pdfParse(pdfBuffer);
-      
       const result: PDFProcessingResult = {
         filename: task.filename,
         processedAt: new Date().toISOString(),
         extractedTextPath: extractedTextPath, // Return the path instead of the text
         summary: JSON.stringify(analysis), // Convert back to string for storage
-        pageCount: pdfData.numpages,
+        pageCount: extraction.pageCount,
         fileSize: stats.size,
+        pageMap: extraction.paginated ? pageMap : undefined, // Only paginated formats can be traced to a page
         metadata: {
           createdAt: stats.birthtime,
           modifiedAt: stats.mtime,
           processingDuration: Date.now(), // Will be calculated later
-          pdfInfo: pdfData.info || {},
+          documentType: resolveMimeType(task.filename),
+          pdfInfo: extraction.documentInfo || {},
           textLength: extractedText.length,
           summaryLength: JSON.stringify(analysis).length,
-          inferredTimestamp: inferredTimestamp || null
+          summaryChunkCount: chunkCount, // Chunks summarized out of summaryTotalChunks
+          summaryTotalChunks: totalChunks,
+          summaryCoverage: coverage, // Percentage of the extracted text the summary was based on
+          inferredTimestamp: inferredTimestamp || null,
+          extractionMethod: extraction.method, // 'text-layer' or 'ocr' for PDFs, otherwise the document format
+          ocrConfidence: extraction.ocrConfidence,
+          ocrPagesProcessed: extraction.ocrPagesProcessed
         }
       };
       
-      console.log(`[PDF PROCESSOR] Successfully completed processing: ${task.filename} (${pdfData.numpages} pages, ${extractedText.length} chars)`);
+      console.log(`[PDF PROCESSOR] Successfully completed processing: ${task.filename} (${extraction.pageCount} pages, ${extractedText.length} chars)`);
       return result;
       
     } catch (error) {
       console.error(`Error processing PDF ${task.filename}:`, error);
-      throw new Error(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw wrapError(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
     }
   }
 
   private async updateFileTimestamps(filename: string, inferredTimestamp: string): Promise<void> {
     try {
       // Update the actual PDF file timestamps
-      const pdfFilePath = path.join(process.cwd(), '../uploads', filename);
+      const pdfFilePath = path.join(currentWorkspace().directories.uploads, filename);
       const timestamp = new Date(inferredTimestamp);
       
       // Update file modification time
@@ -1,55 +1,192 @@
 import async from 'async';
-import { PDFTask } from '../types';
-import { PdfProcessor } from './pdfProcessor';
+import fs from 'fs';
+import { PDFTask, PipelineStage, TaskPriority } from '../types';
+import { ExtractedDocument, PdfProcessor } from './pdfProcessor';
 import { DatabaseService } from './databaseService';
+import { UsageTracker, addUsage, runWithUsageTracker } from './usageService';
+import { hashFile } from './contentHash';
+import { publishEvent } from './eventService';
+import { recordFailedAttempt } from './retryPolicy';
+import { WorkspaceContext, currentWorkspace, runInWorkspace } from './workspaceContext';
+
+// Lower numbers are picked first by the stage queues
+const PRIORITY_ORDER: Record<TaskPriority, number> = { urgent: 0, normal: 1, backfill: 2 };
+
+// Own keys only: `in` would also accept inherited names such as "constructor"
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return typeof value === 'string' && Object.keys(PRIORITY_ORDER).includes(value);
+}
+
+// A task waiting for extraction, with the workspace it was added in
+interface QueuedTask {
+  task: PDFTask;
+  workspace: WorkspaceContext;
+}
+
+// A task between the start of its extraction and the end of its summarization
+interface TaskRun {
+  task: PDFTask;
+  workspace: WorkspaceContext;
+  usageTracker: UsageTracker;
+  startedAt: Date;
+  abortController: AbortController;
+  stage: PipelineStage;
+  extracted?: ExtractedDocument;
+}
+
+// Ordering state kept for each workspace; the stage queues are shared by all of them
+interface WorkspaceQueueState {
+  taskOrder: string[];
+  autoReorderCompleted: boolean;
+  contentHashBackfill: Promise<void> | null;
+}
 
 export class PDFQueueService {
-  private queue: async.QueueObject<PDFTask>;
-  private taskOrder: string[] = []; // Maintain order of tasks
+  // Text extraction is local and cheap, summarization is bound by model rate limits, so the
+  // stages are throttled separately and a large backfill can be extracted while it waits for the model
+  private extractionQueue: async.AsyncPriorityQueue<QueuedTask>;
+  private summaryQueue: async.AsyncPriorityQueue<TaskRun>;
+  private workspaceStates = new Map<string, WorkspaceQueueState>();
   private pdfProcessor: PdfProcessor;
   private databaseService: DatabaseService;
-  private autoReorderCompleted: boolean = false; // Track if auto-reorder has been done
+  private maxAttempts: number;
+  private retryTimers = new Map<string, NodeJS.Timeout>(); // Transient failures waiting for their retry
+  private runs = new Map<string, TaskRun>(); // Tasks being processed, for cancellation
 
   constructor(pdfProcessor: PdfProcessor, databaseService: DatabaseService, concurrency: number = 1) {
     this.pdfProcessor = pdfProcessor;
     this.databaseService = databaseService;
+    this.maxAttempts = parseInt(process.env.PDF_QUEUE_MAX_ATTEMPTS || '3', 10);
+    const extractionConcurrency = parseInt(process.env.PDF_EXTRACTION_CONCURRENCY || '2', 10);
+    const summaryConcurrency = parseInt(process.env.PDF_SUMMARY_CONCURRENCY || String(concurrency), 10);
     
-    // 1. Initialize the queue with our worker function
-    this.queue = async.queue(
-      (task: PDFTask, callback) => {
-        // The worker simply calls our async processing function
-        this.processTask(task)
-          .then(() => callback()) // Call callback with no error on success
-          .catch(err => callback(err)); // Call callback with an error on failure
+    // 1. Initialize the stage queues with our worker functions
+    // Each task is processed in the workspace it was added in
+    this.extractionQueue = async.priorityQueue(
+      ({ task, workspace }: QueuedTask, callback) => {
+        runInWorkspace(workspace, () => this.extractTask(task))
+          .then(() => callback())
+          .catch(err => callback(err));
+      },
+      extractionConcurrency
+    );
+    this.summaryQueue = async.priorityQueue(
+      (run: TaskRun, callback) => {
+        runInWorkspace(run.workspace, () => this.summarizeTask(run))
+          .then(() => callback())
+          .catch(err => callback(err));
       },
-      concurrency
+      summaryConcurrency
     );
 
-    // 2. Add a drain handler to know when the queue is empty
-    this.queue.drain(async () => {
+    // 2. Add drain handlers to know when the pipeline is empty
+    const onDrain = async () => {
+      // Extracted tasks move on to the summary queue, so both have to be idle
+      if (!this.extractionQueue.idle() || !this.summaryQueue.idle()) return;
       console.log('✅ All PDF tasks have been processed. The queue is now empty.');
       
       // Auto-reorder by inferred timestamp after all tasks are completed
       await this.autoReorderByInferredTimestamp();
-    });
+    };
+    this.extractionQueue.drain(onDrain);
+    this.summaryQueue.drain(onDrain);
+  }
+
+  private get workspaceState(): WorkspaceQueueState {
+    const workspaceId = currentWorkspace().workspace.id;
+    let state = this.workspaceStates.get(workspaceId);
+    if (!state) {
+      state = { taskOrder: [], autoReorderCompleted: false, contentHashBackfill: null };
+      this.workspaceStates.set(workspaceId, state);
+    }
+    return state;
+  }
+
+  // Maintain order of tasks
+  private get taskOrder(): string[] {
+    return this.workspaceState.taskOrder;
   }
 
-  // 3. This is our async function that processes PDF tasks
-  private async processTask(task: PDFTask): Promise<void> {
+  private set taskOrder(taskOrder: string[]) {
+    this.workspaceState.taskOrder = taskOrder;
+  }
+
+  // Track if auto-reorder has been done
+  private get autoReorderCompleted(): boolean {
+    return this.workspaceState.autoReorderCompleted;
+  }
+
+  private set autoReorderCompleted(completed: boolean) {
+    this.workspaceState.autoReorderCompleted = completed;
+  }
+
+  private enqueue(task: PDFTask): void {
+    this.extractionQueue.push({ task, workspace: currentWorkspace() }, PRIORITY_ORDER[task.priority || 'normal']);
+  }
+
+  // 3. First stage: extract the text, then hand the task to the summary queue
+  private async extractTask(task: PDFTask): Promise<void> {
     console.log(`[START] Processing PDF Task #${task.id}: "${task.filename}"`);
+    const run = await this.startRun(task, 'extracting');
+    
+    try {
+      run.extracted = await runWithUsageTracker(run.usageTracker, () => this.pdfProcessor.extract(task, run.abortController.signal));
+      run.abortController.signal.throwIfAborted();
+      await this.awaitSummary(run);
+    } catch (error) {
+      await this.failRun(run, error);
+    }
+  }
+
+  // Collects model usage of this run, including failed attempts. Regenerated tasks
+  // keep their earlier usage so the total reflects everything spent on the document.
+  private async startRun(task: PDFTask, stage: PipelineStage, extracted?: ExtractedDocument): Promise<TaskRun> {
+    const run: TaskRun = {
+      task,
+      workspace: currentWorkspace(),
+      usageTracker: new UsageTracker(),
+      startedAt: new Date(),
+      abortController: new AbortController(),
+      stage,
+      extracted
+    };
+    this.runs.set(task.id, run);
+
+    // Persisted before processing so a task that crashes the server is counted on recovery
+    task.attempts = (task.attempts || 0) + 1;
+    await this.updateTaskStatus(task, 'processing', { startedAt: run.startedAt, attempts: task.attempts, nextRetryAt: undefined, stage });
+    return run;
+  }
+
+  private async awaitSummary(run: TaskRun): Promise<void> {
+    run.stage = 'awaiting-summary';
+    await this.updateTaskStatus(run.task, 'processing', { stage: run.stage });
+    this.summaryQueue.push(run, PRIORITY_ORDER[run.task.priority || 'normal']);
+  }
+
+  // Second stage: summarize with the model and complete the task
+  private async summarizeTask(run: TaskRun): Promise<void> {
+    const { task, usageTracker, abortController } = run;
+    // Set before the first await so cancelTask no longer treats the task as waiting
+    run.stage = 'summarizing';
     
     try {
-      // Update task status to processing
-      await this.updateTaskStatus(task.id, 'processing', { startedAt: new Date() });
+      abortController.signal.throwIfAborted();
+      await this.updateTaskStatus(task, 'processing', { stage: run.stage });
       
-      // Process the PDF using the real PDFProcessor
-      const result = await this.pdfProcessor.process(task);
+      // Process the document using the real PDFProcessor
+      const result = await runWithUsageTracker(usageTracker, () => this.pdfProcessor.summarize(task, run.extracted!, abortController.signal));
+      abortController.signal.throwIfAborted(); // Cancelled while the last step was finishing
       
       // Update task with completion
-      await this.updateTaskStatus(task.id, 'completed', {
+      await this.updateTaskStatus(task, 'completed', {
         completedAt: new Date(),
-        result: result
+        error: undefined, // Left by failed attempts that were retried
+        stage: undefined,
+        result: result,
+        usage: addUsage(task.usage, usageTracker.getTotals())
       });
+      this.runs.delete(task.id);
       
       // Update statistics
       await this.databaseService.updateStatistics(true, false);
@@ -64,26 +201,161 @@ export class PDFQueueService {
       }
       
     } catch (error) {
-      console.error(`[ERROR] Failed to process PDF Task #${task.id}: "${task.filename}"`, error);
-      
-      // Update task with failure
-      await this.updateTaskStatus(task.id, 'failed', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
+      await this.failRun(run, error);
+    }
+  }
+
+  private async failRun(run: TaskRun, error: unknown): Promise<void> {
+    const { task, usageTracker, abortController, startedAt } = run;
+    this.runs.delete(task.id);
+    task.usage = addUsage(task.usage, usageTracker.getTotals());
+    
+    if (abortController.signal.aborted) {
+      await this.markCancelled(task);
+      return;
+    }
+    
+    console.error(`[ERROR] Failed to process PDF Task #${task.id}: "${task.filename}"`, error);
+    
+    const attempt = task.attempts || 1;
+    const { entry, retryInMs } = recordFailedAttempt(attempt, this.maxAttempts, startedAt, error);
+    task.attemptHistory = [...(task.attemptHistory || []), entry];
+    
+    // Transient errors (timeouts, rate limits, malformed model output) go back to pending and are retried with backoff
+    if (retryInMs !== undefined) {
+      console.warn(`[QUEUE] Transient failure of task ${task.id} (attempt ${attempt}/${this.maxAttempts}), retrying in ${Math.round(retryInMs / 1000)}s`);
+      await this.updateTaskStatus(task, 'pending', {
+        error: entry.error,
+        stage: undefined,
+        attemptHistory: task.attemptHistory,
+        nextRetryAt: entry.retryAt,
+        usage: task.usage
       });
-      
-      // Update statistics
-      await this.databaseService.updateStatistics(false, true);
+      this.scheduleRetry(task, retryInMs, run.extracted);
+      return;
+    }
+    
+    // Update task with failure
+    await this.updateTaskStatus(task, 'failed', {
+      error: entry.error,
+      stage: undefined,
+      completedAt: new Date(),
+      attemptHistory: task.attemptHistory,
+      usage: task.usage
+    });
+    
+    // Update statistics
+    await this.databaseService.updateStatistics(false, true);
+  }
+
+  private async markCancelled(task: PDFTask): Promise<void> {
+    console.log(`[QUEUE] Cancelled PDF Task #${task.id}: "${task.filename}"`);
+    // A removed task has no record left to update
+    if (await this.databaseService.getTask(task.id)) {
+      await this.updateTaskStatus(task, 'cancelled', { completedAt: new Date(), stage: undefined, usage: task.usage });
+    }
+  }
+
+  /**
+   * Cancel a pending or processing task. Processing tasks are aborted mid-flight, including
+   * their model calls. Returns false if the task does not exist or already finished.
+   */
+  public async cancelTask(taskId: string): Promise<boolean> {
+    const task = await this.databaseService.getTask(taskId);
+    if (!task || (task.status !== 'pending' && task.status !== 'processing')) {
+      return false;
+    }
+
+    const run = this.runs.get(taskId);
+    if (run) {
+      run.abortController.abort(new Error('Task cancelled'));
+      // Nothing is running for a task waiting between the stages to notice the abort
+      if (run.stage === 'awaiting-summary') {
+        this.summaryQueue.remove(({ data }) => data.task.id === taskId);
+        this.runs.delete(taskId);
+        await this.markCancelled(run.task);
+      }
+      // Otherwise the running stage marks the task cancelled once its current step stops
+      return true;
+    }
+
+    this.cancelRetry(taskId);
+    this.extractionQueue.remove(({ data }) => data.task.id === taskId);
+    await this.updateTaskStatus(task, 'cancelled', { completedAt: new Date(), nextRetryAt: undefined });
+    console.log(`[QUEUE] Cancelled pending PDF Task #${taskId}`);
+    return true;
+  }
+
+  /**
+   * Change the priority of a task. A queued task is moved to its new place in the queue
+   * of its current stage right away. Returns false if the task does not exist.
+   */
+  public async setTaskPriority(taskId: string, priority: TaskPriority): Promise<boolean> {
+    // Finished tasks are left alone, their task event would be taken for a new result
+    const task = await this.databaseService.getTask(taskId);
+    if (!task || (task.status !== 'pending' && task.status !== 'processing')) {
+      return false;
+    }
+
+    await this.databaseService.updateTask(taskId, { priority });
+    publishEvent({ type: 'task', taskId, filename: task.filename, status: task.status });
+
+    // Queued items keep their priority, so waiting ones are removed and pushed again
+    let requeued = false;
+    this.extractionQueue.remove(({ data }) => {
+      if (data.task.id !== taskId) return false;
+      requeued = true;
+      return true;
+    });
+    if (requeued) {
+      this.enqueue({ ...task, priority });
+    }
+
+    const run = this.runs.get(taskId);
+    if (run) {
+      run.task.priority = priority;
+      if (run.stage === 'awaiting-summary') {
+        this.summaryQueue.remove(({ data }) => data.task.id === taskId);
+        this.summaryQueue.push(run, PRIORITY_ORDER[priority]);
+      }
+    }
+    return true;
+  }
+
+  // A task that failed during summarization keeps its extracted text and only repeats the summary
+  private scheduleRetry(task: PDFTask, delayMs: number, extracted?: ExtractedDocument): void {
+    this.retryTimers.set(task.id, setTimeout(async () => {
+      this.retryTimers.delete(task.id);
+      // Skip tasks that were removed or regenerated in the meantime
+      const current = await this.databaseService.getTask(task.id);
+      if (current?.status !== 'pending' || !current.nextRetryAt) return;
+
+      task.priority = current.priority;
+      if (extracted) {
+        const run = await this.startRun(task, 'awaiting-summary', extracted);
+        this.summaryQueue.push(run, PRIORITY_ORDER[task.priority || 'normal']);
+      } else {
+        this.enqueue(task);
+      }
+    }, delayMs));
+  }
+
+  private cancelRetry(taskId: string): void {
+    const timer = this.retryTimers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(taskId);
     }
   }
 
-  // Helper method to update task status
-  private async updateTaskStatus(taskId: string, status: PDFTask['status'], updates: Partial<PDFTask> = {}): Promise<void> {
-    await this.databaseService.updateTask(taskId, { status, ...updates });
+  // Helper method to update task status and notify subscribers of GET /events
+  private async updateTaskStatus(task: PDFTask, status: PDFTask['status'], updates: Partial<PDFTask> = {}): Promise<void> {
+    await this.databaseService.updateTask(task.id, { status, ...updates });
+    publishEvent({ type: 'task', taskId: task.id, filename: task.filename, status, error: updates.error });
   }
 
   // 4. Public method to add new PDF tasks to the queue
-  public async addTask(filename: string, path: string): Promise<string> {
+  public async addTask(filename: string, path: string, contentHash?: string, priority: TaskPriority = 'normal'): Promise<string> {
     console.log(`[QUEUE] Starting task creation for: ${filename}`);
     
     try {
@@ -96,7 +368,9 @@ export class PDFQueueService {
         status: 'pending',
         createdAt: now,
         displayOrder: this.taskOrder.length,
-        TimeStamp: now.toISOString()
+        TimeStamp: now.toISOString(),
+        contentHash,
+        priority
       };
       
       console.log(`[QUEUE] Created task object: ${taskId}`);
@@ -111,8 +385,9 @@ export class PDFQueueService {
       console.log(`[QUEUE] Added task to order array: ${taskId} (position: ${this.taskOrder.length - 1})`);
       
       // Add task to the queue
-      this.queue.push(task);
-      console.log(`📥 Added PDF Task #${taskId} to the queue. Current length: ${this.queue.length()}`);
+      this.enqueue(task);
+      publishEvent({ type: 'task', taskId, filename, status: 'pending' });
+      console.log(`📥 Added PDF Task #${taskId} (${priority}) to the queue. Current length: ${this.extractionQueue.length()}`);
       
       return taskId;
     } catch (error) {
@@ -121,6 +396,93 @@ export class PDFQueueService {
     }
   }
 
+  /**
+   * Re-enqueue tasks left pending or processing by a previous run of the server, in their
+   * persisted display order, and rebuild the task order. Tasks that already reached
+   * PDF_QUEUE_MAX_ATTEMPTS are marked failed instead, so a document that crashes the
+   * server is not retried forever. Call once per workspace on startup, before new tasks are added;
+   * tasks this process already queued or runs (e.g. after a workspace import) are left alone.
+   */
+  public async recoverTasks(): Promise<void> {
+    const allTasks = [...await this.databaseService.getAllTasks()]
+      .sort((a, b) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0));
+    this.taskOrder = allTasks.map(task => task.id);
+
+    // The queue types have no iterator; remove() visits every waiting item and here keeps them all
+    const queued = new Set<string>();
+    this.extractionQueue.remove(({ data }) => {
+      queued.add(data.task.id);
+      return false;
+    });
+    let requeued = 0;
+    let delayed = 0;
+    let failed = 0;
+    for (const task of allTasks) {
+      if (task.status !== 'pending' && task.status !== 'processing') continue;
+      if (queued.has(task.id) || this.runs.has(task.id) || this.retryTimers.has(task.id)) continue;
+
+      if ((task.attempts || 0) >= this.maxAttempts) {
+        console.warn(`[QUEUE] Task ${task.id} ("${task.filename}") was interrupted after ${task.attempts} attempts, marking it failed`);
+        await this.updateTaskStatus(task, 'failed', {
+          error: `Processing was interrupted ${task.attempts} times (PDF_QUEUE_MAX_ATTEMPTS=${this.maxAttempts})`,
+          completedAt: new Date()
+        });
+        await this.databaseService.updateStatistics(false, true);
+        failed++;
+        continue;
+      }
+
+      if (task.status === 'processing') {
+        await this.updateTaskStatus(task, 'pending', { startedAt: undefined, stage: undefined });
+      }
+
+      // A transient failure waiting for its retry keeps its backoff; the extracted text is gone, so it starts over
+      const retryInMs = task.status === 'pending' && task.nextRetryAt ? new Date(task.nextRetryAt).getTime() - Date.now() : 0;
+      if (retryInMs > 0) {
+        this.scheduleRetry(task, retryInMs);
+        delayed++;
+        continue;
+      }
+      this.enqueue(task);
+      requeued++;
+    }
+
+    if (requeued > 0 || delayed > 0 || failed > 0) {
+      console.log(`[QUEUE] Recovered ${requeued} interrupted tasks, ${delayed} waiting for a retry, ${failed} failed after ${this.maxAttempts} attempts`);
+    }
+  }
+
+  // Find an earlier upload of the same content. Failed and cancelled tasks are ignored so a re-upload is processed again.
+  public async findTaskByContentHash(contentHash: string): Promise<PDFTask | undefined> {
+    await this.backfillContentHashes();
+    const tasks = await this.databaseService.getAllTasks();
+    return tasks
+      .filter(task => task.contentHash === contentHash && task.status !== 'failed' && task.status !== 'cancelled')
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
+  }
+
+  // Tasks created before content hashing was added get their hash computed once, on first use
+  public backfillContentHashes(): Promise<void> {
+    const state = this.workspaceState;
+    if (!state.contentHashBackfill) {
+      state.contentHashBackfill = (async () => {
+        const tasks = await this.databaseService.getAllTasks();
+        const missing = tasks.filter(task => !task.contentHash && fs.existsSync(task.path));
+        if (missing.length === 0) return;
+        
+        console.log(`[QUEUE] Computing content hashes for ${missing.length} existing tasks`);
+        for (const task of missing) {
+          try {
+            await this.databaseService.updateTask(task.id, { contentHash: await hashFile(task.path) });
+          } catch (error) {
+            console.error(`[QUEUE] Failed to hash ${task.filename}:`, error);
+          }
+        }
+      })();
+    }
+    return state.contentHashBackfill;
+  }
+
   // Get task by ID
   public async getTask(taskId: string): Promise<PDFTask | undefined> {
     return await this.databaseService.getTask(taskId);
@@ -131,29 +493,48 @@ export class PDFQueueService {
     return await this.databaseService.getAllTasks();
   }
 
-  // Get queue statistics
-  public async getQueueStats(): Promise<{ queue: { length: number; working: number } }> {
+  // Get queue statistics; queue is the whole pipeline, stages break it down
+  public async getQueueStats(): Promise<{
+    queue: { length: number; working: number };
+    stages: { [stage in 'extraction' | 'summarization']: { length: number; working: number; concurrency: number } };
+  }> {
+    const stageStats = (queue: async.AsyncPriorityQueue<any>) => ({
+      length: queue.length(),
+      working: queue.running(),
+      concurrency: queue.concurrency
+    });
+    const extraction = stageStats(this.extractionQueue);
+    const summarization = stageStats(this.summaryQueue);
     return {
       queue: {
-        length: this.queue.length(),
-        working: this.queue.running()
-      }
+        length: extraction.length + summarization.length,
+        working: extraction.working + summarization.working
+      },
+      stages: { extraction, summarization }
     };
   }
 
   // Queue control methods
   public pauseQueue(): void {
-    this.queue.pause();
+    this.extractionQueue.pause();
+    this.summaryQueue.pause();
     console.log('⏸️ Queue paused');
   }
 
   public resumeQueue(): void {
-    this.queue.resume();
+    this.extractionQueue.resume();
+    this.summaryQueue.resume();
     console.log('▶️ Queue resumed');
   }
 
   // Task management methods
   public async removeTask(taskId: string): Promise<boolean> {
+    this.cancelRetry(taskId);
+    this.extractionQueue.remove(({ data }) => data.task.id === taskId);
+    this.summaryQueue.remove(({ data }) => data.task.id === taskId);
+    // Stop the model calls of a task that is being processed
+    this.runs.get(taskId)?.abortController.abort(new Error('Task removed'));
+    this.runs.delete(taskId);
     const removed = await this.databaseService.removeTask(taskId);
     
     if (removed) {
@@ -163,6 +544,7 @@ export class PDFQueueService {
       this.taskOrder.splice(orderIndex, 1);
     }
     console.log(`🗑️ Removed task ${taskId}`);
+    publishEvent({ type: 'task', taskId, status: 'removed' });
     }
     
     return removed;
@@ -428,11 +810,17 @@ export class PDFQueueService {
         startedAt: undefined,
         completedAt: undefined,
         error: undefined,
-        result: undefined
+        result: undefined,
+        attempts: 0,
+        attemptHistory: undefined,
+        nextRetryAt: undefined,
+        stage: undefined
       });
 
-      // Add task back to queue
-      this.queue.push(task);
+      // Add task back to queue, replacing a scheduled retry
+      this.cancelRetry(taskId);
+      this.enqueue({ ...task, attempts: 0, attemptHistory: undefined, nextRetryAt: undefined, stage: undefined });
+      publishEvent({ type: 'task', taskId, filename: task.filename, status: 'pending' });
       console.log(`🔄 Regenerated task ${taskId} - added back to queue`);
       
     return true;
@@ -0,0 +1,61 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { currentWorkspace } from './workspaceContext';
+
+export interface ParsedResearchArticle {
+  metadata: Record<string, string>; // Frontmatter fields
+  content: string; // Markdown without the frontmatter
+}
+
+/**
+ * Split a generated article into its frontmatter and body. Writers sometimes wrap the body
+ * in a ```markdown block, which is removed.
+ */
+export function parseResearchArticle(filename: string, raw: string): ParsedResearchArticle {
+  const frontmatterMatch = raw.match(/^---\n([\s\S]*?)\n---/);
+  let metadata: Record<string, string> = {};
+  let content = raw;
+
+  if (frontmatterMatch) {
+    try {
+      metadata = frontmatterMatch[1].split('\n').reduce((acc: Record<string, string>, line: string) => {
+        const [key, ...valueParts] = line.split(':');
+        if (key && valueParts.length > 0) {
+          acc[key.trim()] = valueParts.join(':').trim().replace(/^["']|["']$/g, '');
+        }
+        return acc;
+      }, {});
+
+      // Remove frontmatter from content
+      content = raw.replace(/^---\n[\s\S]*?\n---\n/, '');
+
+      // Strip markdown code block wrapper if it exists
+      if (content.startsWith('```markdown\n') && content.endsWith('\n```')) {
+        content = content.slice(12, -4); // Remove ```markdown\n from start and \n``` from end
+      }
+    } catch (parseError) {
+      console.warn(`Failed to parse frontmatter for ${filename}:`, parseError);
+    }
+  }
+
+  return { metadata, content };
+}
+
+// Article filenames are plain .md names inside the articles directory
+export function isValidArticleFilename(filename: string): boolean {
+  return !filename.includes('..') && !filename.includes('/') && filename.endsWith('.md');
+}
+
+// Markdown files in the research articles directory of the current workspace
+export async function listResearchArticleFiles(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(currentWorkspace().directories['research-articles']);
+    return files.filter(file => file.endsWith('.md'));
+  } catch {
+    return [];
+  }
+}
+
+export function researchArticlePath(filename: string): string {
+  return path.join(currentWorkspace().directories['research-articles'], filename);
+}
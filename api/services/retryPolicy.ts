@@ -0,0 +1,103 @@
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { TaskAttempt } from '../types';
+
+// HTTP statuses of provider errors that are likely to go away on their own: timeouts, conflicts,
+// rate limits and outages
+const TRANSIENT_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+// Node and fetch error codes of dropped, refused or timed out connections
+const TRANSIENT_CODES = new Set([
+  'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_SOCKET'
+]);
+
+// For errors that only have a message, such as the errors stored with a task: provider status lines
+// ("503 Service Unavailable"), outage and connection phrases, and truncated or malformed model output
+const TRANSIENT_MESSAGES = [
+  /(^|: )(408|409|425|429|500|502|503|504|529) /,
+  /rate limit|overloaded|temporarily unavailable|service unavailable|bad gateway|gateway timeout/i,
+  /timed out|socket hang up|connection error|fetch failed|\b(ETIMEDOUT|ECONNRESET|ECONNREFUSED|EPIPE|EAI_AGAIN|ENOTFOUND)\b/i,
+  /parse .*JSON|Unexpected (token|end of JSON)|Empty response|No response generated|All chunk summaries failed/i
+];
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Whether an error is worth retrying. The HTTP status or error code of the error, or of the
+ * errors it wraps as `cause`, decides; the message is only checked for known phrases when there
+ * is neither. Anything not recognized as transient is treated as permanent (unreadable document,
+ * missing file, invalid API key, ...).
+ */
+export function isTransientError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current && typeof current === 'object' && depth < 5; depth++) {
+    if (current instanceof OpenAI.APIConnectionError || current instanceof Anthropic.APIConnectionError) {
+      return true;
+    }
+    const { status, code, cause } = current as { status?: unknown; code?: unknown; cause?: unknown };
+    if (typeof status === 'number') return TRANSIENT_STATUSES.has(status);
+    if (typeof code === 'string' && TRANSIENT_CODES.has(code)) return true;
+    current = cause;
+  }
+  const message = errorMessage(error);
+  return TRANSIENT_MESSAGES.some(pattern => pattern.test(message));
+}
+
+// An Error with a new message that keeps the original as `cause`, so it can still be classified
+export function wrapError(message: string, cause: unknown): Error {
+  return Object.assign(new Error(message), { cause });
+}
+
+/**
+ * Exponential backoff with jitter before retry number `attempt` (1 = first retry):
+ * RETRY_BASE_DELAY_MS doubled per attempt, capped at RETRY_MAX_DELAY_MS.
+ */
+export function retryDelayMs(attempt: number): number {
+  const base = parseInt(process.env.RETRY_BASE_DELAY_MS || '5000', 10);
+  const max = parseInt(process.env.RETRY_MAX_DELAY_MS || '300000', 10);
+  const delay = Math.min(base * 2 ** Math.max(attempt - 1, 0), max);
+  // +-20% so tasks that failed together during an outage do not all retry at the same moment
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Wait before a retry; rejects with the abort reason as soon as the signal is aborted
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Record a failed attempt. Returns the history entry and, when the error is transient and
+ * attempts remain, the delay before the next attempt.
+ */
+export function recordFailedAttempt(
+  attempt: number,
+  maxAttempts: number,
+  startedAt: Date,
+  error: unknown
+): { entry: TaskAttempt; retryInMs?: number } {
+  const transient = isTransientError(error);
+  const retryInMs = transient && attempt < maxAttempts ? retryDelayMs(attempt) : undefined;
+  const entry: TaskAttempt = {
+    attempt,
+    startedAt: startedAt.toISOString(),
+    failedAt: new Date().toISOString(),
+    error: errorMessage(error),
+    transient,
+    retryAt: retryInMs !== undefined ? new Date(Date.now() + retryInMs).toISOString() : undefined
+  };
+  return { entry, retryInMs };
+}
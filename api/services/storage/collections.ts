@@ -0,0 +1,65 @@
+import { PDFTask } from '../../types';
+import { ChatMessage, ChatSession } from '../chatDatabaseService';
+import { AgentInfo, IndexEntry, TaskInfo } from '../indicesDatabaseService';
+import { QueueMetadata, TaskMetadata } from '../agent/agentQueueDatabaseService';
+import { MemorySnapshot } from '../agent/memoryDatabaseService';
+import { InboxFileRecord, SavedAgentQuery } from '../inboxWatcherService';
+import { Workspace } from '../workspaceContext';
+import { EmbeddedChunk } from '../embeddingService';
+import { TextIndexDocument, TextPosting } from '../textIndexService';
+import { Collection, Storage } from './storage';
+
+// Collections of the database services, defined in one place so the JSON import writes the same tables
+
+export type StoredQueue = Omit<QueueMetadata, 'tasks'>;
+export type StoredAgentTask = TaskMetadata & { queueId: string; payload?: any };
+export type StoredIndexAgent = { agentKey: string; agentInfo: AgentInfo };
+export type StoredIndexTask = { agentKey: string; taskId: string; taskInfo: TaskInfo };
+export type StoredIndex = IndexEntry & { agentKey: string; taskId: string };
+export type StoredInboxFile = InboxFileRecord & { path: string };
+
+export const documentTasks = (storage: Storage): Collection<PDFTask> =>
+  storage.collection('tasks', { indexes: ['status', 'contentHash'] });
+
+export const chatMessages = (storage: Storage): Collection<ChatMessage> =>
+  storage.collection('chat_messages', { indexes: ['sessionId', 'timestamp'] });
+
+export const chatSessions = (storage: Storage): Collection<ChatSession> =>
+  storage.collection('chat_sessions', { indexes: ['lastActivity'] });
+
+export const agentQueues = (storage: Storage): Collection<StoredQueue> =>
+  storage.collection('agent_queues');
+
+export const agentTasks = (storage: Storage): Collection<StoredAgentTask> =>
+  storage.collection('agent_tasks', { key: task => `${task.queueId}/${task.id}`, indexes: ['queueId', 'id'] });
+
+export const memorySnapshots = (storage: Storage): Collection<MemorySnapshot> =>
+  storage.collection('memory_snapshots', { key: snapshot => `${snapshot.id}/${snapshot.version}`, indexes: ['id'] });
+
+export const indexAgents = (storage: Storage): Collection<StoredIndexAgent> =>
+  storage.collection('index_agents', { key: agent => agent.agentKey });
+
+export const indexTasks = (storage: Storage): Collection<StoredIndexTask> =>
+  storage.collection('index_tasks', { key: task => `${task.agentKey}/${task.taskId}`, indexes: ['agentKey', 'taskId'] });
+
+export const indexEntries = (storage: Storage): Collection<StoredIndex> =>
+  storage.collection('indices', { indexes: ['indexName', 'taskId', 'agentKey', 'source'] });
+
+export const inboxFiles = (storage: Storage): Collection<StoredInboxFile> =>
+  storage.collection('inbox_files', { key: file => file.path });
+
+export const inboxQueries = (storage: Storage): Collection<SavedAgentQuery> =>
+  storage.collection('inbox_queries');
+
+export const embeddedChunks = (storage: Storage): Collection<EmbeddedChunk> =>
+  storage.collection('embedded_chunks', { indexes: ['taskId', 'model'] });
+
+export const textPostings = (storage: Storage): Collection<TextPosting> =>
+  storage.collection('text_postings', { indexes: ['term', 'taskId'] });
+
+export const textIndexDocuments = (storage: Storage): Collection<TextIndexDocument> =>
+  storage.collection('text_index_documents', { key: document => document.taskId });
+
+// Only in the database of the default workspace
+export const workspaceRecords = (storage: Storage): Collection<Workspace> =>
+  storage.collection('workspaces');
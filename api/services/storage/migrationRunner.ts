@@ -0,0 +1,99 @@
+import path from 'path';
+import { Collection, Storage } from './storage';
+import { MigrationContext, STORES, StoreDefinition } from './migrations';
+
+// One applied migration, recorded in the database it was applied to
+export interface AppliedMigration {
+  id: string; // <store>:<version>
+  store: string;
+  version: number;
+  description: string;
+  appliedAt: string;
+  durationMs: number;
+  backupPath?: string; // Copy of the database taken right before the migration
+}
+
+const appliedMigrations = (storage: Storage): Collection<AppliedMigration> =>
+  storage.collection('schema_migrations', { indexes: ['store'] });
+
+function checkDefinition(store: StoreDefinition): void {
+  store.migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migrations of store ${store.name} must be numbered 1, 2, 3, ...; found version ${migration.version} at position ${i + 1}`);
+    }
+  });
+}
+
+// Version of the last migration applied to a store, 0 if none
+export function getSchemaVersion(storage: Storage, store: string): number {
+  return appliedMigrations(storage).find({ store }).reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+export function getMigrationStatus(storage: Storage) {
+  return STORES.map(store => ({
+    store: store.name,
+    version: getSchemaVersion(storage, store.name),
+    latestVersion: store.migrations.length,
+    applied: appliedMigrations(storage).find({ store: store.name })
+  }));
+}
+
+/**
+ * Apply the pending migrations of every store, in order. A backup of the database is taken
+ * before each migration, unless the store has no data yet. Stops at the first migration that
+ * fails, and refuses to run against a database migrated by a newer version of the server,
+ * so data is never read in a shape the code does not expect.
+ */
+export async function runMigrations(storage: Storage, context: MigrationContext): Promise<AppliedMigration[]> {
+  const backupDir = path.join(path.dirname(storage.location), 'backups');
+  const applied: AppliedMigration[] = [];
+
+  for (const store of STORES) {
+    checkDefinition(store);
+    const current = getSchemaVersion(storage, store.name);
+    if (current > store.migrations.length) {
+      throw new Error(
+        `Store ${store.name} is at schema version ${current}, but this version of the server only knows up to ${store.migrations.length}`
+      );
+    }
+
+    for (const migration of store.migrations.slice(current)) {
+      const label = `${store.name} v${migration.version} (${migration.description})`;
+      let backupPath: string | undefined;
+      const hasData = store.collections(storage).some(collection => collection.count() > 0);
+      if (hasData && storage.location !== ':memory:') {
+        backupPath = path.join(backupDir, `${store.name}-v${migration.version}-${Date.now()}.db`);
+        await storage.backup(backupPath);
+      }
+
+      const startedAt = Date.now();
+      try {
+        const record = storage.transaction(() => {
+          migration.up(storage, context);
+          const record: AppliedMigration = {
+            id: `${store.name}:${migration.version}`,
+            store: store.name,
+            version: migration.version,
+            description: migration.description,
+            appliedAt: new Date().toISOString(),
+            durationMs: Date.now() - startedAt,
+            backupPath
+          };
+          appliedMigrations(storage).put(record);
+          return record;
+        });
+        applied.push(record);
+        console.log(`[MIGRATIONS] Applied ${label}${backupPath ? `, backup at ${backupPath}` : ''}`);
+      } catch (error) {
+        console.error(`[MIGRATIONS] Failed to apply ${label}:`, error);
+        throw new Error(
+          `Migration ${label} failed, the database was left at version ${migration.version - 1}` +
+          (backupPath ? ` (backup at ${backupPath})` : '') +
+          `: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  return applied;
+}
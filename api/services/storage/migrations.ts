@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import { Collection, Storage } from './storage';
+import {
+  agentQueues, agentTasks, chatMessages, chatSessions, documentTasks, embeddedChunks, inboxFiles,
+  inboxQueries, indexAgents, indexEntries, indexTasks, memorySnapshots, textIndexDocuments, textPostings
+} from './collections';
+import { agentKeyForTaskId } from '../indicesDatabaseService';
+
+export interface MigrationContext {
+  dataDir: string; // Directory of the JSON files written by the earlier lowdb databases
+}
+
+export interface Migration {
+  version: number; // 1, 2, 3, ... within a store
+  description: string;
+  // Runs in a transaction, so a migration that throws leaves the store as it was
+  up(storage: Storage, context: MigrationContext): void;
+}
+
+export interface StoreDefinition {
+  name: string;
+  // Collections of the store; a store without any documents is migrated without taking a backup
+  collections(storage: Storage): Collection<unknown>[];
+  migrations: Migration[];
+}
+
+type JsonImporter = (storage: Storage, data: any) => string;
+
+/**
+ * First migration of every store: copy the JSON file of the earlier lowdb database, if there is
+ * one, and rename it to `<name>.migrated` so it is kept as a backup.
+ */
+function importJsonFile(filename: string, importData: JsonImporter): Migration {
+  return {
+    version: 1,
+    description: `Import data/${filename}`,
+    up(storage, { dataDir }) {
+      const filePath = path.join(dataDir, filename);
+      if (!fs.existsSync(filePath)) return;
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8') || '{}');
+      const summary = importData(storage, data || {});
+      fs.renameSync(filePath, `${filePath}.migrated`);
+      console.log(`[MIGRATIONS] Imported ${filename} (${summary})`);
+    }
+  };
+}
+
+const importDocuments: JsonImporter = (storage, data) => {
+  const tasks = documentTasks(storage);
+  (data.tasks || []).forEach((task: any) => tasks.put(task));
+  if (data.statistics) storage.setValue('documents.statistics', data.statistics);
+  if (data.settings?.lastBackup) storage.setValue('documents.lastBackup', data.settings.lastBackup);
+  return `${data.tasks?.length || 0} tasks`;
+};
+
+const importChat: JsonImporter = (storage, data) => {
+  const messages = chatMessages(storage);
+  const sessions = chatSessions(storage);
+  (data.messages || []).forEach((message: any) => messages.put(message));
+  (data.sessions || []).forEach((session: any) => sessions.put(session));
+  if (data.statistics?.lastMessageDate) storage.setValue('chat.lastMessageDate', data.statistics.lastMessageDate);
+  if (data.settings?.lastBackup) storage.setValue('chat.lastBackup', data.settings.lastBackup);
+  return `${data.messages?.length || 0} messages, ${data.sessions?.length || 0} sessions`;
+};
+
+const importAgentQueues: JsonImporter = (storage, data) => {
+  const queues = agentQueues(storage);
+  const tasks = agentTasks(storage);
+  let taskCount = 0;
+  for (const { tasks: queueTasks, ...queue } of Object.values<any>(data.queues || {})) {
+    queues.put(queue);
+    for (const task of Object.values<any>(queueTasks || {})) {
+      tasks.put({ ...task, queueId: queue.id });
+      taskCount++;
+    }
+  }
+  return `${Object.keys(data.queues || {}).length} queues, ${taskCount} tasks`;
+};
+
+const importMemory: JsonImporter = (storage, data) => {
+  const snapshots = memorySnapshots(storage);
+  (data.snapshots || []).forEach((snapshot: any) => snapshots.put(snapshot));
+  return `${data.snapshots?.length || 0} snapshots`;
+};
+
+const importIndices: JsonImporter = (storage, data) => {
+  const agents = data.agents || nestFlatIndices(data.indices || []);
+  let indexCount = 0;
+  for (const [agentKey, agent] of Object.entries<any>(agents)) {
+    indexAgents(storage).put({ agentKey, agentInfo: agent.agentInfo });
+    for (const [taskId, task] of Object.entries<any>(agent.tasks || {})) {
+      indexTasks(storage).put({ agentKey, taskId, taskInfo: task.taskInfo });
+      for (const index of task.indices || []) {
+        indexEntries(storage).put({ ...index, agentKey, taskId });
+        indexCount++;
+      }
+    }
+  }
+  if (data.statistics?.lastIndexDate) storage.setValue('indices.lastIndexDate', data.statistics.lastIndexDate);
+  if (data.settings?.lastBackup) storage.setValue('indices.lastBackup', data.settings.lastBackup);
+  return `${Object.keys(agents).length} agents, ${indexCount} indices`;
+};
+
+const importInbox: JsonImporter = (storage, data) => {
+  const files = inboxFiles(storage);
+  const queries = inboxQueries(storage);
+  for (const [filePath, record] of Object.entries<any>(data.files || {})) {
+    files.put({ ...record, path: filePath });
+  }
+  (data.agentQueries || []).forEach((query: any) => queries.put(query));
+  return `${Object.keys(data.files || {}).length} files, ${data.agentQueries?.length || 0} agent queries`;
+};
+
+// Indices databases from before version 2.0.0 kept a flat list; group it by agent and task
+function nestFlatIndices(flatIndices: any[]): Record<string, any> {
+  const agents: Record<string, any> = {};
+  for (const index of flatIndices) {
+    const taskId = index.taskId || 'unknown_task';
+    const agentKey = agentKeyForTaskId(taskId);
+    agents[agentKey] ||= {
+      agentInfo: {
+        name: `Migrated Agent (${index.source})`,
+        type: index.source === 'pdf_processing' ? 'pdf_processing' : 'indices_creation',
+        queueKey: agentKey,
+        createdAt: index.createdAt,
+        status: 'completed'
+      },
+      tasks: {}
+    };
+    agents[agentKey].tasks[taskId] ||= {
+      taskInfo: {
+        id: taskId,
+        type: index.source === 'pdf_processing' ? 'pdf_processing' : 'quantify',
+        filename: index.filename,
+        articleId: index.articleId,
+        status: 'completed',
+        createdAt: index.createdAt,
+        timestamp: index.timestamp
+      },
+      indices: []
+    };
+    agents[agentKey].tasks[taskId].indices.push({
+      id: index.id,
+      indexName: index.indexName,
+      scoreValue: index.scoreValue,
+      source: index.source,
+      quotes: index.quotes || [],
+      rational: index.rational
+    });
+  }
+  return agents;
+}
+
+/**
+ * Schema history of every store. Append a migration with the next version number to change how
+ * existing data is stored, e.g. when a field of PDFTask, IndexEntry or QueueMetadata is renamed;
+ * never edit or reorder migrations that have been released.
+ */
+export const STORES: StoreDefinition[] = [
+  {
+    name: 'documents',
+    collections: storage => [documentTasks(storage)],
+    migrations: [importJsonFile('database.json', importDocuments)]
+  },
+  {
+    name: 'chat',
+    collections: storage => [chatMessages(storage), chatSessions(storage)],
+    migrations: [importJsonFile('chat-database.json', importChat)]
+  },
+  {
+    name: 'agent-queues',
+    collections: storage => [agentQueues(storage), agentTasks(storage)],
+    migrations: [importJsonFile('agent-queues.json', importAgentQueues)]
+  },
+  {
+    name: 'memory',
+    collections: storage => [memorySnapshots(storage)],
+    migrations: [importJsonFile('memory-history.json', importMemory)]
+  },
+  {
+    name: 'indices',
+    collections: storage => [indexAgents(storage), indexTasks(storage), indexEntries(storage)],
+    migrations: [importJsonFile('indices-database.json', importIndices)]
+  },
+  {
+    name: 'inbox',
+    collections: storage => [inboxFiles(storage), inboxQueries(storage)],
+    migrations: [importJsonFile('inbox.json', importInbox)]
+  },
+  {
+    name: 'embeddings',
+    collections: storage => [embeddedChunks(storage)],
+    migrations: []
+  },
+  {
+    name: 'text-index',
+    collections: storage => [textPostings(storage), textIndexDocuments(storage)],
+    migrations: []
+  }
+];
@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Collection, CollectionOptions, FindOptions, IndexedValue, Storage, Where } from './storage';
+
+// Collection and field names end up in SQL, so only plain identifiers are accepted
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function checkIdentifier(name: string): string {
+  if (!IDENTIFIER.test(name) || name.startsWith('_')) {
+    throw new Error(`Invalid storage identifier: ${name}`);
+  }
+  return `"${name}"`;
+}
+
+function toColumnValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  throw new Error(`Only strings, numbers, booleans and dates can be indexed, got ${typeof value}`);
+}
+
+/**
+ * Collection stored as a table with the document as JSON in `_doc`, the primary key in `_key`
+ * and one indexed column per indexed field, filled in from the document on every put.
+ */
+class SqliteCollection<T> implements Collection<T> {
+  private table: string;
+  private fields: string[];
+  private keyOf: (doc: T) => string;
+
+  constructor(private db: Database.Database, name: string, options: CollectionOptions<T>) {
+    this.table = checkIdentifier(name);
+    this.fields = options.indexes || [];
+    this.fields.forEach(checkIdentifier);
+    this.keyOf = options.key || (doc => (doc as { id: string }).id);
+    this.createTable(name);
+  }
+
+  private createTable(name: string): void {
+    const columns = this.fields.map(field => `, ${checkIdentifier(field)}`).join('');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (_key TEXT PRIMARY KEY, _doc TEXT NOT NULL${columns})`);
+
+    // Fields indexed after the table was created are added and filled from the stored documents
+    const existing = new Set((this.db.prepare(`PRAGMA table_info(${this.table})`).all() as { name: string }[]).map(c => c.name));
+    for (const field of this.fields) {
+      if (!existing.has(field)) {
+        this.db.exec(`ALTER TABLE ${this.table} ADD COLUMN "${field}"`);
+        this.db.exec(`UPDATE ${this.table} SET "${field}" = json_extract(_doc, '$.${field}')`);
+      }
+      this.db.exec(`CREATE INDEX IF NOT EXISTS "${name}_${field}" ON ${this.table} ("${field}")`);
+    }
+  }
+
+  private whereClause(where: Where = {}): { sql: string; params: (string | number | null)[] } {
+    const conditions: string[] = [];
+    const params: (string | number | null)[] = [];
+    for (const [field, value] of Object.entries(where)) {
+      if (!this.fields.includes(field)) {
+        throw new Error(`Field ${field} is not indexed in ${this.table}`);
+      }
+      if (value === null) {
+        conditions.push(`"${field}" IS NULL`);
+      } else {
+        conditions.push(`"${field}" = ?`);
+        params.push(toColumnValue(value));
+      }
+    }
+    return { sql: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  private parse(rows: { _doc: string }[]): T[] {
+    return rows.map(row => JSON.parse(row._doc));
+  }
+
+  get(key: string): T | undefined {
+    const row = this.db.prepare(`SELECT _doc FROM ${this.table} WHERE _key = ?`).get(key) as { _doc: string } | undefined;
+    return row ? JSON.parse(row._doc) : undefined;
+  }
+
+  all(): T[] {
+    return this.find({});
+  }
+
+  find(where: Where, options: FindOptions = {}): T[] {
+    const { sql, params } = this.whereClause(where);
+    let order = 'rowid';
+    if (options.orderBy) {
+      if (!this.fields.includes(options.orderBy)) {
+        throw new Error(`Field ${options.orderBy} is not indexed in ${this.table}`);
+      }
+      order = `"${options.orderBy}"${options.descending ? ' DESC' : ''}, rowid`;
+    } else if (options.descending) {
+      order = 'rowid DESC';
+    }
+    const limit = options.limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(options.limit))}` : '';
+    const rows = this.db.prepare(`SELECT _doc FROM ${this.table}${sql} ORDER BY ${order}${limit}`).all(...params);
+    return this.parse(rows as { _doc: string }[]);
+  }
+
+  count(where?: Where): number {
+    const { sql, params } = this.whereClause(where);
+    return this.db.prepare(`SELECT COUNT(*) FROM ${this.table}${sql}`).pluck().get(...params) as number;
+  }
+
+  distinct(field: string): IndexedValue[] {
+    if (!this.fields.includes(field)) {
+      throw new Error(`Field ${field} is not indexed in ${this.table}`);
+    }
+    // In order of first appearance
+    return this.db.prepare(
+      `SELECT "${field}" FROM ${this.table} GROUP BY "${field}" ORDER BY MIN(rowid)`
+    ).pluck().all() as IndexedValue[];
+  }
+
+  put(doc: T): void {
+    const columns = this.fields.map(field => `, "${field}"`).join('');
+    const placeholders = this.fields.map(() => ', ?').join('');
+    const updates = this.fields.map(field => `, "${field}" = excluded."${field}"`).join('');
+    // An upsert rather than INSERT OR REPLACE, which would move the document to the end
+    this.db.prepare(
+      `INSERT INTO ${this.table} (_key, _doc${columns}) VALUES (?, ?${placeholders})
+       ON CONFLICT(_key) DO UPDATE SET _doc = excluded._doc${updates}`
+    ).run(
+      this.keyOf(doc),
+      JSON.stringify(doc),
+      ...this.fields.map(field => toColumnValue((doc as Record<string, unknown>)[field]))
+    );
+  }
+
+  delete(key: string): boolean {
+    return this.db.prepare(`DELETE FROM ${this.table} WHERE _key = ?`).run(key).changes > 0;
+  }
+
+  deleteWhere(where: Where): number {
+    const { sql, params } = this.whereClause(where);
+    return this.db.prepare(`DELETE FROM ${this.table}${sql}`).run(...params).changes;
+  }
+
+  clear(): number {
+    return this.db.prepare(`DELETE FROM ${this.table}`).run().changes;
+  }
+}
+
+/**
+ * Storage in a single SQLite database file. Writes go through a write-ahead log, so reads are
+ * not blocked while a document is being written, and every change is written on its own instead
+ * of rewriting a whole file.
+ */
+export class SqliteStorage implements Storage {
+  private db: Database.Database;
+  private collections = new Map<string, Collection<unknown>>();
+
+  constructor(readonly location: string) {
+    if (location !== ':memory:') {
+      fs.mkdirSync(path.dirname(location), { recursive: true });
+    }
+    this.db = new Database(location);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec('CREATE TABLE IF NOT EXISTS _values (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    console.log(`[STORAGE] Opened ${location}`);
+  }
+
+  collection<T>(name: string, options: CollectionOptions<T> = {}): Collection<T> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new SqliteCollection<T>(this.db, name, options) as Collection<unknown>;
+      this.collections.set(name, collection);
+    }
+    return collection as Collection<T>;
+  }
+
+  transaction<R>(fn: () => R): R {
+    // IMMEDIATE takes the write lock up front, so a read-modify-write cannot fail half way with SQLITE_BUSY
+    return this.db.transaction(fn).immediate();
+  }
+
+  getValue<T>(key: string): T | undefined {
+    const value = this.db.prepare('SELECT value FROM _values WHERE key = ?').pluck().get(key) as string | undefined;
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  setValue<T>(key: string, value: T): void {
+    this.db.prepare(
+      'INSERT INTO _values (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+    ).run(key, JSON.stringify(value));
+  }
+
+  values(): Record<string, unknown> {
+    const rows = this.db.prepare('SELECT key, value FROM _values ORDER BY key').all() as { key: string; value: string }[];
+    return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+  }
+
+  async backup(destination: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+    await this.db.backup(destination);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,53 @@
+import { currentWorkspace } from '../workspaceContext';
+
+// Values that can be stored in an indexed field and matched by find()
+export type IndexedValue = string | number | boolean | null;
+
+export type Where = Record<string, IndexedValue>;
+
+export interface CollectionOptions<T> {
+  key?: (doc: T) => string; // Primary key of a document, its `id` by default
+  indexes?: string[]; // Top-level fields that can be filtered and sorted on without a table scan
+}
+
+export interface FindOptions {
+  orderBy?: string; // An indexed field; insertion order by default
+  descending?: boolean;
+  limit?: number;
+}
+
+/**
+ * A set of JSON documents with a primary key. Documents are returned in insertion order,
+ * and replacing a document keeps its position.
+ */
+export interface Collection<T> {
+  get(key: string): T | undefined;
+  all(): T[];
+  find(where: Where, options?: FindOptions): T[];
+  count(where?: Where): number;
+  distinct(field: string): IndexedValue[];
+  put(doc: T): void;
+  delete(key: string): boolean;
+  deleteWhere(where: Where): number;
+  clear(): number;
+}
+
+export interface Storage {
+  readonly location: string;
+  collection<T>(name: string, options?: CollectionOptions<T>): Collection<T>;
+  // Runs fn atomically; nested calls join the outer transaction
+  transaction<R>(fn: () => R): R;
+  getValue<T>(key: string): T | undefined;
+  setValue<T>(key: string, value: T): void;
+  values(): Record<string, unknown>; // All values set with setValue, by key
+  backup(destination: string): Promise<void>;
+  close(): void;
+}
+
+/**
+ * The storage of the current workspace, shared by all database services. Pending schema
+ * migrations are applied at startup by migrateWorkspaces, before anything reads from it.
+ */
+export function getStorage(): Storage {
+  return currentWorkspace().storage;
+}
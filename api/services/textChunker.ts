@@ -0,0 +1,76 @@
+export interface TextChunk {
+  index: number;
+  text: string;
+  startOffset: number; // Character offsets into the source text
+  endOffset: number;
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, breaking on paragraph boundaries where possible.
+ * Paragraphs longer than a chunk are split on sentence ends, then hard-split as a last resort.
+ */
+export function splitIntoChunks(text: string, maxChars: number): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let chunkStart = -1;
+  let chunkEnd = -1;
+
+  const flush = () => {
+    if (chunkStart >= 0) {
+      chunks.push({ index: chunks.length, text: text.slice(chunkStart, chunkEnd), startOffset: chunkStart, endOffset: chunkEnd });
+      chunkStart = -1;
+    }
+  };
+
+  const addPiece = (start: number, end: number) => {
+    if (chunkStart >= 0 && end - chunkStart > maxChars) {
+      flush();
+    }
+    if (chunkStart < 0) {
+      chunkStart = start;
+    }
+    chunkEnd = end;
+  };
+
+  const paragraphPattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (!match[0].trim()) continue;
+
+    if (end - start <= maxChars) {
+      addPiece(start, end);
+      continue;
+    }
+
+    // Oversized paragraph: fall back to sentences, then fixed-size slices
+    const sentencePattern = /[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g;
+    let sentence: RegExpExecArray | null;
+    const paragraph = match[0];
+    while ((sentence = sentencePattern.exec(paragraph)) !== null && sentence[0].length > 0) {
+      const sentenceStart = start + sentence.index;
+      const sentenceEnd = sentenceStart + sentence[0].length;
+      for (let sliceStart = sentenceStart; sliceStart < sentenceEnd; sliceStart += maxChars) {
+        addPiece(sliceStart, Math.min(sliceStart + maxChars, sentenceEnd));
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Pick at most `maxChunks` chunks spread evenly over the document, always keeping the first
+ * and last chunk (where titles, dates and conclusions usually are).
+ */
+export function selectChunks(chunks: TextChunk[], maxChunks: number): TextChunk[] {
+  if (chunks.length <= maxChunks) return chunks;
+  if (maxChunks <= 1) return chunks.slice(0, 1);
+
+  const selected = new Set<number>();
+  for (let i = 0; i < maxChunks; i++) {
+    selected.add(Math.round((i * (chunks.length - 1)) / (maxChunks - 1)));
+  }
+  return chunks.filter(chunk => selected.has(chunk.index));
+}
@@ -0,0 +1,275 @@
+import async from 'async';
+import fs from 'fs/promises';
+import { PDFTask } from '../types';
+import { DatabaseService } from './databaseService';
+import { extractedContent, pageAt } from './documentRetrieval';
+import { subscribeToEvents } from './eventService';
+import { TextQuery, tokenizeWithOffsets } from './textQuery';
+import { Storage, getStorage } from './storage/storage';
+import { textIndexDocuments, textPostings } from './storage/collections';
+import { WorkspaceContext, currentWorkspace, getWorkspaceContext, runInWorkspace } from './workspaceContext';
+
+// Where a word occurs in one document
+export interface TextPosting {
+  id: string; // <taskId>/<term>
+  taskId: string;
+  term: string;
+  positions: number[]; // Word positions, for phrase matching
+  offsets: number[]; // Character offsets into the extracted markdown, one per position
+}
+
+// A document in the keyword index
+export interface TextIndexDocument {
+  taskId: string;
+  extractedTextPath: string; // Reprocessed documents get a new extracted text and are indexed again
+  words: number;
+  indexedAt: string;
+}
+
+export interface TextHit {
+  start: number; // Character offsets into the extracted markdown
+  end: number;
+  text: string; // The matched words as they appear in the document
+  page: number | null;
+  snippet: string; // Text around the hit, on one line
+  highlights: [number, number][]; // Matched words within the snippet
+}
+
+export interface TextSearchResult {
+  taskId: string;
+  filename: string;
+  hitCount: number;
+  hits: TextHit[]; // The first hits in document order
+}
+
+type Span = { start: number; end: number };
+
+// Matching documents with the spans of the words that matched
+type Matches = Map<string, Span[]>;
+
+// A document waiting to be indexed, with the workspace it belongs to
+interface IndexJob {
+  taskId: string;
+  workspace: WorkspaceContext;
+}
+
+const SNIPPET_CONTEXT = 80;
+
+function mergeSpans(spans: Span[]): Span[] {
+  const unique = new Map(spans.map(span => [`${span.start}:${span.end}`, span]));
+  return [...unique.values()].sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Inverted index of the words of every extracted text, for exact word and phrase search.
+ * Documents are indexed as their processing completes; postings keep word positions and
+ * character offsets, so hits can be shown in context and located in the viewer.
+ */
+export class TextIndexService {
+  private queue: async.QueueObject<IndexJob>;
+  private databaseService = new DatabaseService();
+
+  constructor() {
+    this.queue = async.queue(({ taskId, workspace }: IndexJob, callback) => {
+      runInWorkspace(workspace, () => this.indexTask(taskId))
+        .then(() => callback())
+        .catch(err => callback(err));
+    }, 1);
+    this.queue.error((error, job) => {
+      console.error(`[TEXT INDEX] Failed to index task ${job.taskId}:`, error);
+    });
+  }
+
+  private get storage(): Storage {
+    return getStorage();
+  }
+
+  // Index documents as they complete and drop removed ones, in the workspace of the event
+  start(): void {
+    subscribeToEvents(event => {
+      if (event.type !== 'task') return;
+      const workspace = getWorkspaceContext(event.workspaceId);
+      if (!workspace) return;
+      if (event.status === 'completed') {
+        this.queue.push({ taskId: event.taskId, workspace });
+      } else if (event.status === 'removed') {
+        runInWorkspace(workspace, () => this.removeTask(event.taskId));
+      }
+    });
+  }
+
+  /**
+   * Queue the completed documents of the current workspace that are not indexed, or were
+   * indexed from an earlier extraction, and drop documents that no longer exist. Called on startup.
+   */
+  async backfill(): Promise<void> {
+    const tasks = await this.databaseService.getAllTasks();
+    const taskIds = new Set(tasks.map(task => task.id));
+    const documents = textIndexDocuments(this.storage);
+
+    for (const document of documents.all()) {
+      if (!taskIds.has(document.taskId)) this.removeTask(document.taskId);
+    }
+
+    const missing = tasks.filter(task =>
+      task.status === 'completed' && task.result?.extractedTextPath &&
+      documents.get(task.id)?.extractedTextPath !== task.result.extractedTextPath
+    );
+    if (missing.length > 0) {
+      console.log(`[TEXT INDEX] Queued ${missing.length} documents of workspace ${currentWorkspace().workspace.id} for indexing`);
+      for (const task of missing) {
+        this.queue.push({ taskId: task.id, workspace: currentWorkspace() });
+      }
+    }
+  }
+
+  private removeTask(taskId: string): void {
+    this.storage.transaction(() => {
+      textPostings(this.storage).deleteWhere({ taskId });
+      textIndexDocuments(this.storage).delete(taskId);
+    });
+  }
+
+  private async indexTask(taskId: string): Promise<void> {
+    const task = await this.databaseService.getTask(taskId);
+    if (task?.status !== 'completed' || !task.result?.extractedTextPath) return;
+    const extractedTextPath = task.result.extractedTextPath;
+
+    const content = extractedContent(await fs.readFile(extractedTextPath, 'utf8'));
+    const words = tokenizeWithOffsets(content.text);
+    const postings = new Map<string, TextPosting>();
+    words.forEach(({ term, offset }, position) => {
+      let posting = postings.get(term);
+      if (!posting) {
+        posting = { id: `${taskId}/${term}`, taskId, term, positions: [], offsets: [] };
+        postings.set(term, posting);
+      }
+      posting.positions.push(position);
+      posting.offsets.push(content.offset + offset);
+    });
+
+    this.storage.transaction(() => {
+      const collection = textPostings(this.storage);
+      collection.deleteWhere({ taskId });
+      postings.forEach(posting => collection.put(posting));
+      textIndexDocuments(this.storage).put({ taskId, extractedTextPath, words: words.length, indexedAt: new Date().toISOString() });
+    });
+    console.log(`[TEXT INDEX] Indexed ${words.length} words (${postings.size} distinct) of ${task.filename}`);
+  }
+
+  // Documents containing the words in sequence, with the span of every occurrence
+  private matchTerms(terms: string[]): Matches {
+    if (terms.length === 0) return new Map();
+    const postingsByTerm = terms.map(term =>
+      new Map(textPostings(this.storage).find({ term }).map(posting => [posting.taskId, posting]))
+    );
+    const matches: Matches = new Map();
+    for (const [taskId, first] of postingsByTerm[0]) {
+      const postings = postingsByTerm.map(byTask => byTask.get(taskId));
+      if (postings.some(posting => !posting)) continue;
+      const positionSets = postings.map(posting => new Map(posting!.positions.map((p, i) => [p, posting!.offsets[i]])));
+
+      const spans: Span[] = [];
+      first.positions.forEach((position, i) => {
+        const lastOffset = positionSets[terms.length - 1].get(position + terms.length - 1);
+        if (lastOffset === undefined) return;
+        if (positionSets.every((set, k) => set.has(position + k))) {
+          spans.push({ start: first.offsets[i], end: lastOffset + terms[terms.length - 1].length });
+        }
+      });
+      if (spans.length > 0) matches.set(taskId, spans);
+    }
+    return matches;
+  }
+
+  private evaluate(query: TextQuery): Matches {
+    switch (query.type) {
+      case 'terms':
+        return this.matchTerms(query.terms);
+      case 'or': {
+        const matches: Matches = new Map();
+        for (const child of query.children) {
+          this.evaluate(child).forEach((spans, taskId) => matches.set(taskId, [...(matches.get(taskId) || []), ...spans]));
+        }
+        return matches;
+      }
+      case 'and': {
+        // Words that are all punctuation match nothing and are left out rather than failing the query
+        const children = query.children.filter(child => child.type !== 'terms' || child.terms.length > 0);
+        const included = children.filter(child => child.type !== 'not').map(child => this.evaluate(child));
+        const excluded = children.flatMap(child => child.type === 'not' ? [this.evaluate(child.child)] : []);
+        const matches: Matches = new Map();
+        for (const [taskId, spans] of included[0] || []) {
+          if (!included.every(m => m.has(taskId)) || excluded.some(m => m.has(taskId))) continue;
+          matches.set(taskId, included.flatMap(m => m.get(taskId)!));
+        }
+        return matches;
+      }
+      case 'not':
+        // Only meaningful next to other words; parseTextQuery refuses queries made of exclusions only
+        return new Map();
+    }
+  }
+
+  /**
+   * Documents of the current workspace matching the query, most hits first. Documents that are
+   * still waiting to be indexed are not found yet.
+   */
+  async search(query: TextQuery, options: { limit?: number; hitsPerDocument?: number } = {}): Promise<{ total: number; results: TextSearchResult[] }> {
+    const tasks = new Map<string, PDFTask>((await this.databaseService.getAllTasks()).map(task => [task.id, task]));
+    const ranked = [...this.evaluate(query)]
+      .filter(([taskId]) => tasks.has(taskId))
+      .map(([taskId, spans]) => ({ task: tasks.get(taskId)!, spans: mergeSpans(spans) }))
+      .sort((a, b) => b.spans.length - a.spans.length);
+
+    const results: TextSearchResult[] = [];
+    for (const { task, spans } of ranked.slice(0, options.limit ?? 20)) {
+      let markdown = '';
+      try {
+        markdown = await fs.readFile(task.result!.extractedTextPath, 'utf8');
+      } catch (error) {
+        console.warn(`[TEXT INDEX] Extracted text of ${task.filename} is missing:`, error);
+      }
+      results.push({
+        taskId: task.id,
+        filename: task.filename,
+        hitCount: spans.length,
+        hits: spans.slice(0, options.hitsPerDocument ?? 5).map(span => ({
+          start: span.start,
+          end: span.end,
+          text: markdown.slice(span.start, span.end),
+          page: pageAt(task, span.start),
+          ...this.snippet(markdown, span, spans)
+        }))
+      });
+    }
+    return { total: ranked.length, results };
+  }
+
+  // Text around a hit, cut at word boundaries, with every hit that falls inside it highlighted
+  private snippet(markdown: string, hit: Span, spans: Span[]): { snippet: string; highlights: [number, number][] } {
+    // Kept within the document text, without the header and footer of the extracted file
+    const content = extractedContent(markdown);
+    const contentEnd = content.offset + content.text.length;
+    let start = Math.max(content.offset, hit.start - SNIPPET_CONTEXT);
+    let end = Math.min(contentEnd, hit.end + SNIPPET_CONTEXT);
+    while (start > content.offset && start < hit.start && /\S/.test(markdown[start - 1])) start++;
+    while (end < contentEnd && end > hit.end && /\S/.test(markdown[end])) end--;
+
+    return {
+      // Whitespace is replaced one for one, so the highlights stay valid
+      snippet: markdown.slice(start, end).replace(/\s/g, ' '),
+      highlights: spans
+        .filter(span => span.start >= start && span.end <= end)
+        .map(span => [span.start - start, span.end - start] as [number, number])
+    };
+  }
+
+  // Size of the index of the current workspace and of the backlog
+  getStatus(): { documents: number; queued: number } {
+    return {
+      documents: textIndexDocuments(this.storage).count(),
+      queued: this.queue.length() + this.queue.running()
+    };
+  }
+}
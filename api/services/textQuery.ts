@@ -0,0 +1,113 @@
+// Parsed keyword query of GET /search/text
+export type TextQuery =
+  | { type: 'terms'; terms: string[] } // A word, or a phrase whose words must follow each other
+  | { type: 'and'; children: TextQuery[] }
+  | { type: 'or'; children: TextQuery[] }
+  | { type: 'not'; child: TextQuery };
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Lower-cased words with their character offsets; the same split is used for documents and queries
+export function tokenizeWithOffsets(text: string): { term: string; offset: number }[] {
+  return Array.from(text.matchAll(WORD), match => ({ term: match[0].toLowerCase(), offset: match.index! }));
+}
+
+type Token = { type: 'word' | 'phrase'; value: string } | { type: 'open' | 'close' | 'and' | 'or' | 'not' };
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:"([^"]*)"?|(\()|(\))|(-)(?=\S)|([^\s()"]+))/gy;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < input.length && (match = pattern.exec(input)) !== null) {
+    if (match[1] !== undefined) tokens.push({ type: 'phrase', value: match[1] });
+    else if (match[2]) tokens.push({ type: 'open' });
+    else if (match[3]) tokens.push({ type: 'close' });
+    else if (match[4]) tokens.push({ type: 'not' });
+    else if (match[5] === 'AND') tokens.push({ type: 'and' });
+    else if (match[5] === 'OR') tokens.push({ type: 'or' });
+    else if (match[5] === 'NOT') tokens.push({ type: 'not' });
+    else if (match[5]) tokens.push({ type: 'word', value: match[5] });
+    else break; // Trailing whitespace
+  }
+  return tokens;
+}
+
+/**
+ * Parse a keyword query. Words and "quoted phrases" must all occur unless joined by OR;
+ * NOT or a leading - excludes documents, parentheses group. OR binds tighter than the
+ * implicit AND, so `inflation transitory OR temporary` needs inflation and either word.
+ * Words are matched case-insensitively and in full; punctuation inside a word, as in
+ * data-dependent, makes it a phrase. Throws on queries without anything to look for.
+ */
+export function parseTextQuery(input: string): TextQuery {
+  const tokens = lex(input);
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseAnd = (): TextQuery => {
+    const children: TextQuery[] = [];
+    while (position < tokens.length && peek().type !== 'close') {
+      if (peek().type === 'and') {
+        position++;
+        continue;
+      }
+      children.push(parseOr());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseOr = (): TextQuery => {
+    const children = [parseUnary()];
+    while (peek()?.type === 'or') {
+      position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseUnary = (): TextQuery => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Query ends where a word was expected');
+    }
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', child: parseUnary() };
+      case 'open': {
+        const group = parseAnd();
+        if (tokens[position++]?.type !== 'close') {
+          throw new Error('Missing closing parenthesis');
+        }
+        return group;
+      }
+      case 'word':
+      case 'phrase':
+        return { type: 'terms', terms: tokenizeWithOffsets(token.value).map(t => t.term) };
+      default:
+        throw new Error(`Unexpected ${token.type.toUpperCase()} in query`);
+    }
+  };
+
+  const query = parseAnd();
+  if (position < tokens.length) {
+    throw new Error('Unmatched closing parenthesis');
+  }
+  if (!hasPositiveTerms(query)) {
+    throw new Error('Query needs at least one word that is not excluded');
+  }
+  return query;
+}
+
+// Whether a query can match anything on its own, i.e. is not only exclusions or empty words
+function hasPositiveTerms(query: TextQuery): boolean {
+  switch (query.type) {
+    case 'terms':
+      return query.terms.length > 0;
+    case 'not':
+      return false;
+    case 'or':
+      return query.children.every(hasPositiveTerms);
+    case 'and':
+      return query.children.some(hasPositiveTerms);
+  }
+}
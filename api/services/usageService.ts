@@ -0,0 +1,153 @@
+import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { UsageTotals } from '../types';
+import { TokenUsage } from './llm/llmProvider';
+
+// USD per 1M tokens. Reasoning tokens are billed as output tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Usage of a single model call
+export interface ModelUsage extends TokenUsage {
+  model: string;
+  provider: string;
+  cost: number;
+}
+
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'o4-mini': { input: 1.10, output: 4.40 },
+  'o3-mini': { input: 1.10, output: 4.40 },
+  'o3': { input: 2.00, output: 8.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'claude-sonnet-4-5': { input: 3.00, output: 15.00 },
+  'claude-haiku-4-5': { input: 1.00, output: 5.00 },
+  'claude-opus-4-1': { input: 15.00, output: 75.00 },
+  'fixture-reasoning': { input: 0, output: 0 },
+  'fixture-writing': { input: 0, output: 0 }
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+const warnedModels = new Set<string>();
+
+export function emptyUsage(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, reasoningTokens: 0, cost: 0 };
+}
+
+export function addUsage(totals: UsageTotals | undefined, usage: UsageTotals): UsageTotals {
+  const base = totals || emptyUsage();
+  return {
+    calls: base.calls + usage.calls,
+    inputTokens: base.inputTokens + usage.inputTokens,
+    outputTokens: base.outputTokens + usage.outputTokens,
+    reasoningTokens: base.reasoningTokens + usage.reasoningTokens,
+    cost: base.cost + usage.cost
+  };
+}
+
+export function toUsageTotals(usage: ModelUsage): UsageTotals {
+  return {
+    calls: 1,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    reasoningTokens: usage.reasoningTokens,
+    cost: usage.cost
+  };
+}
+
+/**
+ * Price table: built-in defaults, overridden per model by LLM_PRICE_TABLE_FILE
+ * (JSON object of { "model": { "input": usdPer1M, "output": usdPer1M } })
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    priceTable = { ...DEFAULT_PRICE_TABLE };
+    const priceFile = process.env.LLM_PRICE_TABLE_FILE;
+    if (priceFile) {
+      try {
+        const overrides = JSON.parse(fs.readFileSync(priceFile, 'utf-8')) as Record<string, ModelPrice>;
+        Object.assign(priceTable, overrides);
+        console.log(`[USAGE] Loaded ${Object.keys(overrides).length} model prices from ${priceFile}`);
+      } catch (error) {
+        console.error(`[USAGE] Failed to load price table ${priceFile}:`, error);
+      }
+    }
+  }
+  return priceTable;
+}
+
+// Exact match first, then the longest model prefix (e.g. dated snapshots like gpt-4o-mini-2024-07-18)
+function findPrice(model: string): ModelPrice | undefined {
+  const table = getPriceTable();
+  if (table[model]) {
+    return table[model];
+  }
+  const prefix = Object.keys(table)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = findPrice(model);
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`[USAGE] No price configured for model ${model}, cost will be reported as 0`);
+    }
+    return 0;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+}
+
+/**
+ * Collects the usage of every model call made while it is active
+ */
+export class UsageTracker {
+  private totals: UsageTotals = emptyUsage();
+
+  add(usage: UsageTotals): void {
+    this.totals = addUsage(this.totals, usage);
+  }
+
+  getTotals(): UsageTotals {
+    return { ...this.totals };
+  }
+}
+
+// Trackers are stacked so a call inside nested scopes is counted by all of them
+const trackerStorage = new AsyncLocalStorage<UsageTracker[]>();
+
+/**
+ * Run fn with a usage tracker attached to its async context. Model calls made anywhere below
+ * (workers, memory compression, ...) are attributed to the tracker without threading it through.
+ */
+export function runWithUsageTracker<T>(tracker: UsageTracker, fn: () => Promise<T>): Promise<T> {
+  const parents = trackerStorage.getStore() || [];
+  return trackerStorage.run([...parents, tracker], fn);
+}
+
+/**
+ * Price a model call and attribute it to all active trackers
+ */
+export function recordModelUsage(model: string, provider: string, tokens: TokenUsage): ModelUsage {
+  const usage: ModelUsage = {
+    model,
+    provider,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    reasoningTokens: tokens.reasoningTokens,
+    cost: estimateCost(model, tokens)
+  };
+
+  const trackers = trackerStorage.getStore() || [];
+  for (const tracker of trackers) {
+    tracker.add(toUsageTotals(usage));
+  }
+
+  return usage;
+}
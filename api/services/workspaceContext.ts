@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Storage } from './storage/storage';
+import { SqliteStorage } from './storage/sqliteStorage';
+import { workspaceRecords } from './storage/collections';
+import { runMigrations } from './storage/migrationRunner';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Lower-case letters, digits and hyphens, so an id can be used as a directory name and in routes
+const WORKSPACE_ID = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Directories whose files belong to a workspace, by their folder name in a workspace bundle
+export interface WorkspaceDirectories {
+  uploads: string;
+  'extracted-texts': string;
+  'research-articles': string;
+}
+
+/**
+ * Everything a workspace keeps apart from the others: its own database (tasks, indices, agent
+ * queues, memory snapshots, chat history) and its own directories.
+ */
+export interface WorkspaceContext {
+  workspace: Workspace;
+  storage: Storage;
+  directories: WorkspaceDirectories;
+}
+
+const contexts = new Map<string, WorkspaceContext>();
+const contextStorage = new AsyncLocalStorage<WorkspaceContext>();
+
+// The default workspace keeps the locations used before workspaces were added
+function defaultDatabasePath(): string {
+  return process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'app.db');
+}
+
+function openContext(workspace: Workspace): WorkspaceContext {
+  let location: string;
+  let directories: WorkspaceDirectories;
+  if (workspace.id === DEFAULT_WORKSPACE_ID) {
+    location = defaultDatabasePath();
+    directories = {
+      uploads: path.join(process.cwd(), '..', 'uploads'),
+      'extracted-texts': path.join(process.cwd(), 'extracted-texts'),
+      'research-articles': path.join(process.cwd(), 'research-articles')
+    };
+  } else {
+    const root = path.join(path.dirname(defaultDatabasePath()), 'workspaces', workspace.id);
+    location = path.join(root, 'app.db');
+    directories = {
+      uploads: path.join(root, 'uploads'),
+      'extracted-texts': path.join(root, 'extracted-texts'),
+      'research-articles': path.join(root, 'research-articles')
+    };
+  }
+  fs.mkdirSync(directories.uploads, { recursive: true });
+  return { workspace, storage: new SqliteStorage(location), directories };
+}
+
+function getDefaultContext(): WorkspaceContext {
+  let context = contexts.get(DEFAULT_WORKSPACE_ID);
+  if (!context) {
+    context = openContext({ id: DEFAULT_WORKSPACE_ID, name: 'Default', createdAt: new Date(0).toISOString() });
+    contexts.set(DEFAULT_WORKSPACE_ID, context);
+  }
+  return context;
+}
+
+// The other workspaces are registered in the database of the default one
+const registry = () => workspaceRecords(getDefaultContext().storage);
+
+/**
+ * The workspace the current request or background job works in: set by runInWorkspace,
+ * the default workspace outside of it.
+ */
+export function currentWorkspace(): WorkspaceContext {
+  return contextStorage.getStore() || getDefaultContext();
+}
+
+/**
+ * Run fn in a workspace. Database services, queues and workers called anywhere below use the
+ * workspace's database and directories without it being threaded through.
+ */
+export function runInWorkspace<T>(context: WorkspaceContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+export function listWorkspaces(): Workspace[] {
+  return [getDefaultContext().workspace, ...registry().all()];
+}
+
+// Opens the workspace's database on first use; undefined for unknown workspaces
+export function getWorkspaceContext(id: string): WorkspaceContext | undefined {
+  if (id === DEFAULT_WORKSPACE_ID) {
+    return getDefaultContext();
+  }
+  let context = contexts.get(id);
+  if (!context) {
+    const workspace = registry().get(id);
+    if (!workspace) return undefined;
+    context = openContext(workspace);
+    contexts.set(id, context);
+  }
+  return context;
+}
+
+/**
+ * Bring the database of every workspace up to date. Called on startup before anything reads
+ * from them; the default workspace also imports the JSON files of the earlier lowdb databases.
+ */
+export async function migrateWorkspaces(): Promise<void> {
+  await runMigrations(getDefaultContext().storage, { dataDir: path.dirname(defaultDatabasePath()) });
+  for (const workspace of registry().all()) {
+    const context = getWorkspaceContext(workspace.id)!;
+    await runMigrations(context.storage, { dataDir: path.dirname(context.storage.location) });
+  }
+}
+
+/**
+ * Create an empty workspace. The id is derived from the name unless given.
+ */
+export async function createWorkspace(name: string, id?: string): Promise<WorkspaceContext> {
+  const workspaceId = id || name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64);
+  if (!WORKSPACE_ID.test(workspaceId)) {
+    throw new Error('Workspace ids may only contain lower-case letters, digits and hyphens');
+  }
+  if (workspaceId === DEFAULT_WORKSPACE_ID || registry().get(workspaceId)) {
+    throw new Error(`Workspace ${workspaceId} already exists`);
+  }
+
+  const workspace: Workspace = { id: workspaceId, name, createdAt: new Date().toISOString() };
+  registry().put(workspace);
+  const context = getWorkspaceContext(workspaceId)!;
+  await runMigrations(context.storage, { dataDir: path.dirname(context.storage.location) });
+  console.log(`[WORKSPACES] Created workspace ${workspaceId} (${name})`);
+  return context;
+}
+
+export function renameWorkspace(id: string, name: string): Workspace | undefined {
+  const context = id === DEFAULT_WORKSPACE_ID ? undefined : getWorkspaceContext(id);
+  if (!context) return undefined;
+  context.workspace = { ...context.workspace, name };
+  registry().put(context.workspace);
+  return context.workspace;
+}
+
+/**
+ * Remove a workspace with its database and files. The default workspace cannot be deleted.
+ */
+export async function deleteWorkspace(id: string): Promise<boolean> {
+  const context = id === DEFAULT_WORKSPACE_ID ? undefined : getWorkspaceContext(id);
+  if (!context) return false;
+  registry().delete(id);
+  contexts.delete(id);
+  context.storage.close();
+  await fs.promises.rm(path.dirname(context.storage.location), { recursive: true, force: true });
+  console.log(`[WORKSPACES] Deleted workspace ${id}`);
+  return true;
+}
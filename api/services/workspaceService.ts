@@ -0,0 +1,320 @@
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import yazl from 'yazl';
+import { PDFQueueService } from './pdfQueueService';
+import { getStorage } from './storage/storage';
+import { SqliteStorage } from './storage/sqliteStorage';
+import { STORES } from './storage/migrations';
+import { getSchemaVersion, runMigrations } from './storage/migrationRunner';
+import { agentTasks, documentTasks } from './storage/collections';
+import { WorkspaceDirectories, currentWorkspace } from './workspaceContext';
+
+const BUNDLE_FORMAT = 'pdf-queue-workspace';
+const BUNDLE_FORMAT_VERSION = 1;
+const DATABASE_ENTRY = 'workspace.db';
+
+// The inbox records which files of this machine's inbox were ingested, which means nothing elsewhere
+const EXCLUDED_STORES = ['inbox'];
+
+type DirectoryName = keyof WorkspaceDirectories;
+
+const DIRECTORY_NAMES: DirectoryName[] = ['uploads', 'extracted-texts', 'research-articles'];
+
+export interface WorkspaceManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  workspace: { id: string; name: string }; // Workspace the bundle was exported from
+  schemaVersions: Record<string, number>; // Store schema versions of the exported database
+  directories: WorkspaceDirectories; // Absolute paths on the exporting machine, rewritten on import
+  counts: {
+    documents: number;
+    agentTasks: number;
+    files: Record<DirectoryName, number>;
+  };
+}
+
+export interface WorkspaceImportResult {
+  manifest: WorkspaceManifest;
+  documents: Record<string, number>; // Imported documents per store
+  files: Record<DirectoryName, number>;
+  rewrittenPaths: number;
+  backupPath: string; // Copy of the database as it was before the import
+}
+
+// Replace the exporting machine's directories at the start of stored paths with the local ones
+function rewritePaths(value: unknown, replacements: [string, string][], counter: { count: number }): unknown {
+  if (typeof value === 'string') {
+    for (const [from, to] of replacements) {
+      if (value === from || value.startsWith(from + '/') || value.startsWith(from + '\\')) {
+        counter.count++;
+        return to + value.slice(from.length).replace(/\\/g, path.sep);
+      }
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => rewritePaths(item, replacements, counter));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, rewritePaths(item, replacements, counter)])
+    );
+  }
+  return value;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fsPromises.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await listFiles(fullPath));
+    else if (entry.isFile()) files.push(fullPath);
+  }
+  return files;
+}
+
+// Extract a ZIP archive, refusing entries that would end up outside the target directory
+async function extractZip(zipPath: string, targetDir: string): Promise<void> {
+  const zipfile = await new Promise<yauzl.ZipFile>((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (error, opened) => {
+      if (error || !opened) reject(error || new Error('Failed to open bundle'));
+      else resolve(opened);
+    });
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      zipfile.on('entry', async (entry: yauzl.Entry) => {
+        try {
+          const target = path.resolve(targetDir, entry.fileName);
+          if (!target.startsWith(path.resolve(targetDir) + path.sep)) {
+            throw new Error(`Invalid path in bundle: ${entry.fileName}`);
+          }
+          if (!entry.fileName.endsWith('/')) {
+            await fsPromises.mkdir(path.dirname(target), { recursive: true });
+            const stream = await new Promise<Readable>((resolveStream, rejectStream) => {
+              zipfile.openReadStream(entry, (error, readStream) => {
+                if (error || !readStream) rejectStream(error || new Error('Failed to read entry'));
+                else resolveStream(readStream);
+              });
+            });
+            await pipeline(stream, fs.createWriteStream(target));
+          }
+          zipfile.readEntry();
+        } catch (error) {
+          reject(error);
+        }
+      });
+      zipfile.on('end', () => resolve());
+      zipfile.on('error', reject);
+      zipfile.readEntry();
+    });
+  } finally {
+    zipfile.close();
+  }
+}
+
+/**
+ * Export and import of a complete workspace as one ZIP bundle: a manifest, a snapshot of the
+ * database (documents, indices, agent queues, memory snapshots, chat history) and the uploaded
+ * documents, extracted texts and research articles. Both work on the current workspace;
+ * importing replaces its contents.
+ */
+export class WorkspaceService {
+  constructor(private queueService: PDFQueueService) {}
+
+  private get directories(): WorkspaceDirectories {
+    return currentWorkspace().directories;
+  }
+
+  /**
+   * Reason the current workspace cannot be replaced or deleted right now, or null. Tasks in
+   * flight would write into the imported data, or into a deleted workspace.
+   */
+  async getActiveWork(): Promise<string | null> {
+    const storage = getStorage();
+    const activeDocuments = documentTasks(storage).count({ status: 'pending' }) + documentTasks(storage).count({ status: 'processing' });
+    const activeAgentTasks = agentTasks(storage).all().filter(task => task.status === 'processing').length;
+    if (activeDocuments > 0 || activeAgentTasks > 0) {
+      return `${activeDocuments} document tasks and ${activeAgentTasks} agent tasks are still running; wait for them or cancel them first`;
+    }
+    return null;
+  }
+
+  async exportBundle(): Promise<{ stream: Readable; filename: string; manifest: WorkspaceManifest; removeSnapshot: () => void }> {
+    const storage = getStorage();
+    const snapshotPath = path.join(os.tmpdir(), `workspace-export-${Date.now()}.db`);
+    await storage.backup(snapshotPath);
+
+    const zip = new yazl.ZipFile();
+    zip.addFile(snapshotPath, DATABASE_ENTRY);
+
+    const fileCounts = {} as Record<DirectoryName, number>;
+    for (const name of DIRECTORY_NAMES) {
+      const dir = this.directories[name];
+      const files = await listFiles(dir);
+      for (const file of files) {
+        zip.addFile(file, `${name}/${path.relative(dir, file).split(path.sep).join('/')}`);
+      }
+      fileCounts[name] = files.length;
+    }
+
+    const manifest: WorkspaceManifest = {
+      format: BUNDLE_FORMAT,
+      formatVersion: BUNDLE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      workspace: { id: currentWorkspace().workspace.id, name: currentWorkspace().workspace.name },
+      schemaVersions: Object.fromEntries(STORES.map(store => [store.name, getSchemaVersion(storage, store.name)])),
+      directories: this.directories,
+      counts: {
+        documents: documentTasks(storage).count(),
+        agentTasks: agentTasks(storage).count(),
+        files: fileCounts
+      }
+    };
+    zip.addBuffer(Buffer.from(JSON.stringify(manifest, null, 2)), 'manifest.json');
+    zip.end();
+
+    const stream = zip.outputStream as Readable;
+    const removeSnapshot = () => fs.unlink(snapshotPath, () => undefined);
+    stream.on('end', removeSnapshot);
+    stream.on('error', removeSnapshot);
+
+    const filename = `workspace-${manifest.workspace.id}-${manifest.exportedAt.slice(0, 10)}.zip`;
+    console.log(`[WORKSPACE] Exporting ${manifest.counts.documents} documents and ${Object.values(fileCounts).reduce((a, b) => a + b, 0)} files`);
+    return { stream, filename, manifest, removeSnapshot };
+  }
+
+  /**
+   * Replace the local workspace with a bundle. The bundle's database is first migrated to the
+   * current schema; paths under the exporting machine's directories are rewritten to the local
+   * ones. The local database is backed up before anything is replaced, and the local files are
+   * moved aside until the import succeeds.
+   */
+  async importBundle(bundlePath: string): Promise<WorkspaceImportResult> {
+    const workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'workspace-import-'));
+    let bundleStorage: SqliteStorage | null = null;
+    let movedAside = new Map<DirectoryName, string>();
+
+    try {
+      await extractZip(bundlePath, workDir);
+
+      const manifestPath = path.join(workDir, 'manifest.json');
+      if (!fs.existsSync(manifestPath) || !fs.existsSync(path.join(workDir, DATABASE_ENTRY))) {
+        throw new Error('Not a workspace bundle: manifest.json or the database is missing');
+      }
+      const manifest = JSON.parse(await fsPromises.readFile(manifestPath, 'utf-8')) as WorkspaceManifest;
+      if (manifest.format !== BUNDLE_FORMAT) {
+        throw new Error('Not a workspace bundle: unknown format');
+      }
+      if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+        throw new Error(`Bundle format ${manifest.formatVersion} is newer than this server supports (${BUNDLE_FORMAT_VERSION})`);
+      }
+
+      // Bundles from older versions are brought up to date; newer ones are refused by the runner
+      bundleStorage = new SqliteStorage(path.join(workDir, DATABASE_ENTRY));
+      await runMigrations(bundleStorage, { dataDir: workDir });
+
+      const storage = getStorage();
+      const backupPath = path.join(path.dirname(storage.location), 'backups', `pre-import-${Date.now()}.db`);
+      await storage.backup(backupPath);
+
+      // Files of the replaced workspace are moved aside, so none are left behind without a document
+      movedAside = await this.moveDirectoriesAside();
+
+      // Files go in before the database is replaced, so a failed copy leaves the workspace as it was
+      const files = {} as Record<DirectoryName, number>;
+      for (const name of DIRECTORY_NAMES) {
+        const from = path.join(workDir, name);
+        const copied = await listFiles(from);
+        if (copied.length > 0) {
+          await fsPromises.mkdir(this.directories[name], { recursive: true });
+          await fsPromises.cp(from, this.directories[name], { recursive: true, force: true });
+        }
+        files[name] = copied.length;
+      }
+
+      const replacements = DIRECTORY_NAMES
+        .filter(name => manifest.directories?.[name])
+        .map(name => [manifest.directories[name], this.directories[name]] as [string, string]);
+      const rewritten = { count: 0 };
+      const documents: Record<string, number> = {};
+      const source = bundleStorage;
+
+      storage.transaction(() => {
+        for (const store of STORES.filter(s => !EXCLUDED_STORES.includes(s.name))) {
+          const targets = store.collections(storage);
+          const sources = store.collections(source);
+          documents[store.name] = 0;
+          targets.forEach((target, i) => {
+            target.clear();
+            for (const doc of sources[i].all()) {
+              target.put(rewritePaths(doc, replacements, rewritten));
+              documents[store.name]++;
+            }
+          });
+        }
+        for (const [key, value] of Object.entries(source.values())) {
+          storage.setValue(key, value);
+        }
+      });
+
+      console.log(`[WORKSPACE] Imported bundle exported at ${manifest.exportedAt}: ${JSON.stringify(documents)}, ${rewritten.count} paths rewritten`);
+      const replaced = [...movedAside.values()];
+      movedAside.clear();
+      await Promise.all(replaced.map(aside => fsPromises.rm(aside, { recursive: true, force: true })));
+
+      // Pick up documents that were still queued when the bundle was exported
+      await this.queueService.recoverTasks();
+
+      return { manifest, documents, files, rewrittenPaths: rewritten.count, backupPath };
+    } catch (error) {
+      await this.restoreDirectories(movedAside);
+      throw error;
+    } finally {
+      bundleStorage?.close();
+      await fsPromises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // Rename the workspace directories next to themselves and leave empty ones in their place
+  private async moveDirectoriesAside(): Promise<Map<DirectoryName, string>> {
+    const moved = new Map<DirectoryName, string>();
+    const suffix = `.pre-import-${Date.now()}`;
+    try {
+      for (const name of DIRECTORY_NAMES) {
+        const dir = this.directories[name];
+        if (fs.existsSync(dir)) {
+          await fsPromises.rename(dir, dir + suffix);
+          moved.set(name, dir + suffix);
+        }
+        await fsPromises.mkdir(dir, { recursive: true });
+      }
+    } catch (error) {
+      await this.restoreDirectories(moved);
+      throw error;
+    }
+    return moved;
+  }
+
+  // Put directories moved aside by a failed import back, dropping what the import copied in
+  private async restoreDirectories(moved: Map<DirectoryName, string>): Promise<void> {
+    for (const [name, aside] of moved) {
+      const dir = this.directories[name];
+      try {
+        await fsPromises.rm(dir, { recursive: true, force: true });
+        await fsPromises.rename(aside, dir);
+      } catch (error) {
+        console.error(`[WORKSPACE] Failed to restore ${dir} from ${aside}:`, error);
+      }
+    }
+    moved.clear();
+  }
+}
@@ -4,7 +4,7 @@ export interface PDFTask {
   id: string;
   filename: string;
   path: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
@@ -12,6 +12,29 @@ export interface PDFTask {
   result?: PDFProcessingResult;
   displayOrder?: number;
   TimeStamp?: string; // Used for sorting in timeline
+  usage?: UsageTotals; // Model usage spent on this task
+  contentHash?: string; // SHA-256 of the uploaded file, used to detect duplicate uploads
+  attempts?: number; // Times processing was started, counted across server restarts
+  attemptHistory?: TaskAttempt[]; // One entry per failed attempt
+  nextRetryAt?: string; // Set while a transient failure waits for its retry
+  priority?: TaskPriority; // Missing means 'normal'
+  stage?: PipelineStage; // Pipeline stage of a processing task
+}
+
+// Order in which queued tasks are picked up, within each pipeline stage
+export type TaskPriority = 'urgent' | 'normal' | 'backfill';
+
+// Text extraction and summarization are throttled separately; extracted documents wait for a summarization slot
+export type PipelineStage = 'extracting' | 'awaiting-summary' | 'summarizing';
+
+// A failed processing attempt of a PDF or agent task
+export interface TaskAttempt {
+  attempt: number;
+  startedAt: string;
+  failedAt: string;
+  error: string;
+  transient: boolean; // Transient errors are retried with backoff until max attempts
+  retryAt?: string; // When the next attempt was scheduled, if any
 }
 
 export interface PDFProcessingResult {
@@ -21,5 +44,23 @@ export interface PDFProcessingResult {
   summary: string;
   pageCount: number;
   fileSize: number;
+  pageMap?: PageMapEntry[]; // Where each page lives in the extracted markdown file
   metadata?: Record<string, any>;
-} 
\ No newline at end of file
+}
+
+export interface PageMapEntry {
+  page: number; // 1-based page number in the source document
+  startOffset: number; // Character offsets into the extracted markdown file
+  endOffset: number;
+  charCount: number;
+  headings: string[];
+}
+
+// Accumulated model usage, attributed to PDF tasks, agent queues/tasks and chat sessions
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number; // Includes reasoning tokens
+  reasoningTokens: number;
+  cost: number; // USD, from the configured price table
+}
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, Clock, CheckCircle2, AlertCircle, Eye, Loader2, RefreshCw, Sparkles, Play, Trash2, Plus, ChevronDown, ChevronRight } from 'lucide-react';
+import { FileText, Clock, CheckCircle2, AlertCircle, Eye, Loader2, RefreshCw, Sparkles, Play, Trash2, Plus, ChevronDown, ChevronRight, Ban } from 'lucide-react';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
@@ -10,12 +10,13 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { getApiBaseUrl } from "@/lib/utils";
 import { cn } from '@/lib/utils';
+import { useServerEvents } from "@/hooks/use-server-events";
 
 interface AgentTask {
   id: string;
   type: string;
   payload?: any;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   metadata?: Record<string, any>;
   resultPath?: string;
   result?: any;
@@ -26,7 +27,7 @@ interface QueueInfo {
   id: string;
   name: string;
   type: string;
-  status: 'active' | 'paused' | 'completed' | 'failed';
+  status: 'active' | 'paused' | 'completed' | 'failed' | 'cancelled';
   createdAt: string;
   updatedAt: string;
 }
@@ -57,15 +58,14 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
   const [selectedQueue, setSelectedQueue] = useState<AgentQueue | null>(null);
   const [expandedTaskIds, setExpandedTaskIds] = useState<Record<string, boolean>>({});
 
-  // Fetch agent queues on component mount and auto-refresh every 3 seconds
+  // Fetch agent queues on component mount
   useEffect(() => {
     fetchAgentQueues();
-    const interval = setInterval(() => {
-      fetchAgentQueues(false);
-    }, 3000);
-    return () => clearInterval(interval);
   }, []);
 
+  // Refresh silently when the server reports agent task transitions
+  useServerEvents(['agent-task'], () => fetchAgentQueues(false));
+
   const fetchAgentQueues = async (showLoading = true) => {
     try {
       if (showLoading) {
@@ -186,6 +186,8 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
         return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />;
       case 'failed':
         return <AlertCircle className="w-4 h-4 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-slate-500" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-yellow-500" />;
       case 'active':
@@ -204,6 +206,8 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
         return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'failed':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'cancelled':
+        return 'bg-slate-200 text-slate-700 border-slate-300';
       case 'pending':
       case 'paused':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
@@ -272,6 +276,8 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
                 return <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />;
               case 'failed':
                 return <AlertCircle className="w-5 h-5 text-red-500" />;
+              case 'cancelled':
+                return <Ban className="w-5 h-5 text-slate-500" />;
               case 'pending':
               default:
                 return <Clock className="w-5 h-5 text-yellow-500" />;
@@ -286,6 +292,7 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
                     task.status === 'completed' ? 'border-green-500 bg-green-50' :
                     task.status === 'processing' ? 'border-blue-500 bg-blue-50' :
                     task.status === 'failed' ? 'border-red-500 bg-red-50' :
+                    task.status === 'cancelled' ? 'border-slate-400 bg-slate-100' :
                     'border-yellow-500 bg-yellow-50',
                     'w-8 h-8 mb-1'
                   )
@@ -400,6 +407,22 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
     }
   };
 
+  const cancelQueue = async (queueKey: string) => {
+    if (!window.confirm('Cancel this agent queue? The running task is stopped and the remaining tasks are cancelled.')) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/agent/queue/${queueKey}/cancel`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel queue');
+      }
+      await fetchAgentQueues(false);
+    } catch (error) {
+      alert('Failed to cancel queue: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
   // Show empty state when there are no agent queues
   const showEmptyState = agentQueues.length === 0 && !loading;
 
@@ -475,6 +498,17 @@ const AgentTab = ({ uploadedFiles }: AgentTabProps) => {
                       {getStatusIcon(queueStatus)}
                       <span className="ml-1 capitalize">{queueStatus}</span>
                     </Badge>
+                    {queue.tasks.some(task => task.status === 'pending' || task.status === 'processing') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancelQueue(queue.queueKey)}
+                        className="text-slate-500 hover:text-slate-700"
+                        title="Cancel the remaining tasks"
+                      >
+                        <Ban className="w-4 h-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { getApiBaseUrl } from "@/lib/utils";
+import { useServerEvents } from "@/hooks/use-server-events";
 import { Trash } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 
@@ -45,17 +46,12 @@ const AnalysisTab = () => {
   const [deletingSeries, setDeletingSeries] = useState<string | null>(null);
 
   useEffect(() => {
-    let isMounted = true;
     fetchIndices(); // Initial load
-    const interval = setInterval(() => {
-      if (isMounted) fetchIndices(false); // Auto-refresh every 5 seconds silently
-    }, 5000);
-    return () => {
-      isMounted = false;
-      clearInterval(interval);
-    };
   }, []);
 
+  // Refresh silently when agents create new indices
+  useServerEvents(['index'], () => fetchIndices(false));
+
   const fetchIndices = async (showLoading = true) => {
     try {
       const response = await fetch(`${API_BASE_URL}/indices`);
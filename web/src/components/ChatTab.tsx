@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send, Bot, User, AtSign, FileText, Plus, Sparkles, ChevronDown, Loader2 } from 'lucide-react';
+import { Send, Bot, User, AtSign, FileText, Plus, Sparkles, ChevronDown, Loader2, Wrench, Square } from 'lucide-react';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -9,9 +9,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { getApiBaseUrl } from "@/lib/utils";
+import { useServerEvents } from "@/hooks/use-server-events";
 
 interface ChatTabProps {
   uploadedFiles: File[];
+  onOpenDocument?: (filename: string) => void;
 }
 
 interface PdfTask {
@@ -36,14 +38,40 @@ interface PdfTask {
   };
 }
 
+// Document passage an answer is based on
+interface Citation {
+  taskId: string;
+  filename: string;
+  quote: string;
+  page: number | null;
+}
+
+// Data lookup the assistant made while answering
+interface ToolCall {
+  tool: string;
+  arguments: Record<string, unknown>;
+  summary?: string;
+  error?: string;
+}
+
 interface Message {
   id: string;
   content: string;
   isUser: boolean;
   timestamp: Date;
   mentions?: string[];
+  citations?: Citation[];
+  toolCalls?: ToolCall[];
 }
 
+// Server-sent events of POST /chat/stream
+type ChatStreamEvent =
+  | { type: 'start'; data: { sessionId: string } }
+  | { type: 'token'; data: { text: string } }
+  | { type: 'tool'; data: ToolCall }
+  | { type: 'done'; data: { content: string; timestamp: string; citations?: Citation[]; toolCalls?: ToolCall[] } }
+  | { type: 'error'; data: { error: string } };
+
 // Removed AgentStep interface - no longer needed
 
 interface ChatSession {
@@ -81,7 +109,27 @@ const API_BASE_URL = getApiBaseUrl();
 
 // Removed complex agent workflow helpers
 
-const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
+// Read the server-sent events of a fetch response, passing each one to onEvent
+const readEventStream = async (body: ReadableStream<Uint8Array>, onEvent: (event: ChatStreamEvent) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const type = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (type && data) onEvent({ type, data: JSON.parse(data) } as ChatStreamEvent);
+    }
+  }
+};
+
+const ChatTab = ({ uploadedFiles, onOpenDocument }: ChatTabProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [tasks, setTasks] = useState<PdfTask[]>([]);
@@ -92,6 +140,8 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // Aborts the answer being streamed; the server keeps what was generated so far
+  const chatAbortRef = useRef<AbortController | null>(null);
   
   // Agent states
   const [selectedAgentType, setSelectedAgentType] = useState<'indices' | 'change_statement' | null>(null);
@@ -107,15 +157,11 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
     fetchTasks();
     loadExistingMessages();
     fetchAgentQueues();
-    
-    // Refresh tasks every 5 seconds to get newly processed PDFs
-    const interval = setInterval(() => {
-      fetchTasks();
-    }, 5000);
-    
-    return () => clearInterval(interval);
   }, []);
 
+  // Refresh tasks when the server reports task state changes, to get newly processed documents
+  useServerEvents(['task'], () => fetchTasks());
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -378,22 +424,15 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
 
   const extractMentions = (content: string): string[] => {
     const mentions: string[] = [];
-    const mentionRegex = /@(\w+)/g;
-    let match;
-    
-    while ((match = mentionRegex.exec(content)) !== null) {
-      if (match[1] === 'all') {
-        mentions.push('@all');
-      } else {
-        // Check if it matches a document filename
-        const filename = tasks.find(task => 
-          task.filename.toLowerCase() === match[1].toLowerCase()
-        )?.filename;
-        if (filename) {
-          mentions.push(filename);
-        }
-      }
+    if (/(^|\s)@all\b/.test(content)) {
+      mentions.push('@all');
     }
+    // Filenames contain dots and dashes, so look for each document's mention as a whole
+    tasks.forEach(task => {
+      if (content.toLowerCase().includes(`@${task.filename.toLowerCase()}`)) {
+        mentions.push(task.filename);
+      }
+    });
     
     return mentions;
   };
@@ -422,8 +461,11 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
 
     setMessages(prev => [...prev, userMessage]);
 
-    // Save user message to database
-    await saveMessageToDatabase(userMessage, currentSessionId);
+    // Without a session the server starts one, and the message is saved once its id arrives
+    let sessionId = currentSessionId;
+    if (sessionId) {
+      await saveMessageToDatabase(userMessage, sessionId);
+    }
 
     // Add a loading message
     const loadingMessage: Message = {
@@ -434,32 +476,64 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
     };
     setMessages(prev => [...prev, loadingMessage]);
 
+    const abortController = new AbortController();
+    chatAbortRef.current = abortController;
+    let streamedText = '';
     try {
-      // Call the backend chat API
-      const response = await fetch(`${API_BASE_URL}/chat`, {
+      // Call the backend chat API; the answer arrives as server-sent events while it is generated
+      const response = await fetch(`${API_BASE_URL}/chat/stream`, {
         method: 'POST',
+        signal: abortController.signal,
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           message: inputValue,
           mentions: mentions,
-          sessionId: currentSessionId
+          sessionId
         }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Failed to get response from chat API');
       }
 
-      const data = await response.json();
+      // Set from the event handler, which type narrowing does not see into
+      let data = null as { content: string; timestamp: string; citations?: Citation[]; toolCalls?: ToolCall[] } | null;
+      await readEventStream(response.body, event => {
+        if (event.type === 'start') {
+          if (!sessionId) {
+            sessionId = event.data.sessionId;
+            setCurrentSessionId(sessionId);
+            saveMessageToDatabase(userMessage, sessionId);
+          }
+        } else if (event.type === 'token') {
+          streamedText += event.data.text;
+          setMessages(prev => prev.map(msg =>
+            msg.id === loadingMessage.id ? { ...msg, content: streamedText.trimStart() } : msg
+          ));
+        } else if (event.type === 'tool') {
+          setMessages(prev => prev.map(msg =>
+            msg.id === loadingMessage.id ? { ...msg, toolCalls: [...(msg.toolCalls || []), event.data] } : msg
+          ));
+        } else if (event.type === 'done') {
+          data = event.data;
+        } else if (event.type === 'error') {
+          throw new Error(event.data.error);
+        }
+      });
+      if (!data) {
+        throw new Error('Chat stream ended without an answer');
+      }
       
-      // Replace loading message with actual response
+      // Replace the streamed text with the final answer, whose references are numbered like its citations
       const aiMessage: Message = {
         id: loadingMessage.id,
         content: data.content,
         isUser: false,
-        timestamp: new Date(data.timestamp)
+        timestamp: new Date(data.timestamp),
+        citations: data.citations,
+        toolCalls: data.toolCalls
       };
       
       setMessages(prev => prev.map(msg => 
@@ -467,25 +541,34 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
       ));
 
       // Save AI response to database
-      await saveMessageToDatabase(aiMessage, currentSessionId);
+      await saveMessageToDatabase(aiMessage, sessionId);
 
       // Refresh sessions to update message count
       fetchSessions();
     } catch (error) {
-      console.error('Chat API error:', error);
-      
-      // Replace loading message with error
-      const errorMessage: Message = {
-        id: loadingMessage.id,
-        content: 'Sorry, I encountered an error while processing your request. Please try again.',
-        isUser: false,
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => prev.map(msg => 
-        msg.id === loadingMessage.id ? errorMessage : msg
-      ));
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep the part of the answer that arrived
+        setMessages(prev => prev.map(msg =>
+          msg.id === loadingMessage.id ? { ...msg, content: streamedText.trim() ? `${streamedText.trim()}\n\n(Stopped)` : '(Stopped)' } : msg
+        ));
+        fetchSessions();
+      } else {
+        console.error('Chat API error:', error);
+        
+        // Replace loading message with error
+        const errorMessage: Message = {
+          id: loadingMessage.id,
+          content: 'Sorry, I encountered an error while processing your request. Please try again.',
+          isUser: false,
+          timestamp: new Date()
+        };
+        
+        setMessages(prev => prev.map(msg => 
+          msg.id === loadingMessage.id ? errorMessage : msg
+        ));
+      }
     } finally {
+      chatAbortRef.current = null;
       setIsLoading(false);
     }
 
@@ -626,6 +709,21 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
                         : 'bg-slate-100 text-slate-900'
                     }`}
                   >
+                    {message.toolCalls && message.toolCalls.length > 0 && (
+                      <div className="mb-2 space-y-1">
+                        {message.toolCalls.map((call, index) => (
+                          <div key={index} className="flex items-start gap-1 text-xs text-slate-500">
+                            <Wrench className="w-3 h-3 mt-0.5 shrink-0" />
+                            <span>
+                              <span className="font-mono">{call.tool}({Object.values(call.arguments).map(value => JSON.stringify(value)).join(', ')})</span>
+                              {call.error
+                                ? <span className="text-red-600"> failed: {call.error}</span>
+                                : call.summary && <span>: {call.summary}</span>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                     
                     {/* Removed complex agent progress display */}
@@ -644,6 +742,22 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
                         ))}
                       </div>
                     )}
+                    {message.citations && message.citations.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {message.citations.map((citation, index) => (
+                          <Badge
+                            key={index}
+                            variant="outline"
+                            className="text-xs cursor-pointer bg-white hover:bg-slate-50"
+                            title={citation.quote}
+                            onClick={() => onOpenDocument?.(citation.filename)}
+                          >
+                            <FileText className="w-3 h-3 mr-1" />
+                            [{index + 1}] {citation.filename}{citation.page ? ` p.${citation.page}` : ''}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     <p className={`text-xs mt-1 ${
                       message.isUser ? 'text-blue-100' : 'text-slate-500'
                     }`}>
@@ -768,7 +882,18 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
-          {/* Send Button */}
+          {/* Send Button, Stop while an answer is streamed */}
+          {isLoading && !agentLoading ? (
+            <Button
+              onClick={() => chatAbortRef.current?.abort()}
+              size="icon"
+              title="Stop generating"
+              className="h-8 w-8 rounded-full bg-black hover:bg-black/80 text-white flex items-center justify-center shadow-none"
+              style={{marginLeft: 4}}
+            >
+              <Square className="w-3 h-3 fill-current" />
+            </Button>
+          ) : (
           <Button 
             onClick={handleSendMessage} 
             size="icon"
@@ -778,6 +903,7 @@ const ChatTab = ({ uploadedFiles }: ChatTabProps) => {
           >
             {agentLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
           </Button>
+          )}
         </div>
       </div>
 
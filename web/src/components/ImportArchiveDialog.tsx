@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { getApiBaseUrl } from "@/lib/utils";
+
+type ImportFileStatus = 'queued' | 'duplicate' | 'unsupported' | 'failed';
+
+interface ImportFileResult {
+  name: string;
+  status: ImportFileStatus;
+  taskId?: string;
+  filename?: string;
+  error?: string;
+}
+
+interface ImportJob {
+  id: string;
+  source: 'zip' | 'directory';
+  sourceName: string;
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  counts: Record<ImportFileStatus, number>;
+  files: ImportFileResult[];
+  error?: string;
+}
+
+interface ImportArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void; // Called when an import finishes, to refresh the file list
+}
+
+const API_BASE_URL = getApiBaseUrl();
+
+const statusStyles: Record<ImportFileStatus, string> = {
+  queued: 'text-green-700 border-green-300 bg-green-50',
+  duplicate: 'text-amber-700 border-amber-300 bg-amber-50',
+  unsupported: 'text-slate-600 border-slate-300 bg-slate-50',
+  failed: 'text-red-700 border-red-300 bg-red-50'
+};
+
+const ImportArchiveDialog = ({ open, onOpenChange, onImported }: ImportArchiveDialogProps) => {
+  const [archive, setArchive] = useState<File | null>(null);
+  const [directory, setDirectory] = useState('');
+  const [force, setForce] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+
+  // Poll the running import for per-file progress
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/import/${job.id}`);
+        if (!response.ok) return;
+        const updated: ImportJob = await response.json();
+        setJob(updated);
+        if (updated.status !== 'running') {
+          onImported();
+        }
+      } catch (pollError) {
+        console.error('Error polling import:', pollError);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [job, onImported]);
+
+  const startImport = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const query = force ? '?force=true' : '';
+      let response: Response;
+      if (archive) {
+        const formData = new FormData();
+        formData.append('archive', archive);
+        response = await fetch(`${API_BASE_URL}/import${query}`, { method: 'POST', body: formData });
+      } else {
+        response = await fetch(`${API_BASE_URL}/import${query}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ directory })
+        });
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start import');
+      }
+      setJob(data);
+    } catch (startError) {
+      setError(startError instanceof Error ? startError.message : 'Failed to start import');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const reset = () => {
+    setArchive(null);
+    setDirectory('');
+    setJob(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Finished imports are cleared when the dialog closes; a running one keeps going on the server
+    if (!nextOpen && job?.status !== 'running') {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const progress = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Archive</DialogTitle>
+          <DialogDescription>
+            Queue every document in a ZIP archive or a server folder. Unsupported files and duplicates are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!job ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="import-archive">ZIP archive</Label>
+              <Input
+                id="import-archive"
+                type="file"
+                accept=".zip"
+                onChange={(e) => setArchive(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="import-directory">Or a folder on the server</Label>
+              <Input
+                id="import-directory"
+                placeholder="/data/archive/statements"
+                value={directory}
+                disabled={!!archive}
+                onChange={(e) => setDirectory(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="import-force" checked={force} onCheckedChange={(checked) => setForce(checked === true)} />
+              <Label htmlFor="import-force" className="font-normal">Import files that were already uploaded</Label>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={startImport} disabled={starting || (!archive && !directory.trim())}>
+                {starting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {starting ? 'Starting...' : 'Import'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <div className="flex justify-between text-sm text-slate-600 mb-1">
+                <span className="truncate">{job.sourceName}</span>
+                <span>{job.processed} / {job.total || '?'}</span>
+              </div>
+              <Progress value={job.status === 'running' ? progress : 100} />
+            </div>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(job.counts) as ImportFileStatus[]).map(status => (
+                <Badge key={status} variant="outline" className={`capitalize ${statusStyles[status]}`}>
+                  {status}: {job.counts[status]}
+                </Badge>
+              ))}
+            </div>
+            {job.error && <p className="text-sm text-red-600">{job.error}</p>}
+            <div className="max-h-64 overflow-y-auto border border-slate-200 rounded divide-y divide-slate-100">
+              {job.files.map((file, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm">
+                  <span className="truncate text-slate-700" title={file.error || file.name}>{file.name}</span>
+                  <Badge variant="outline" className={`capitalize flex-shrink-0 ${statusStyles[file.status]}`}>
+                    {file.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end space-x-2">
+              {job.status !== 'running' && (
+                <Button variant="outline" onClick={reset}>
+                  Import More
+                </Button>
+              )}
+              <Button onClick={() => handleOpenChange(false)}>
+                {job.status === 'running' ? 'Run in Background' : 'Done'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportArchiveDialog;
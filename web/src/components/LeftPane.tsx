@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileText, MessageCircle, Eye } from 'lucide-react';
+import { FileText, MessageCircle, Eye, Search } from 'lucide-react';
 import PdfsTab from './PdfsTab';
 import ChatTab from './ChatTab';
-import PdfViewerTab from './PdfViewerTab';
+import PdfViewerTab, { ViewerHighlight } from './PdfViewerTab';
+import SearchTab from './SearchTab';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
 
 interface LeftPaneProps {
   selectedPdf: string | null;
@@ -15,15 +17,21 @@ interface LeftPaneProps {
 }
 
 const LeftPane = ({ selectedPdf, setSelectedPdf, uploadedFiles, setUploadedFiles, activeTab, setActiveTab }: LeftPaneProps) => {
+  // Search hit to show in the viewer; dropped when another document is opened
+  const [highlight, setHighlight] = useState<(ViewerHighlight & { filename: string }) | null>(null);
+
   return (
     <div className="h-full bg-white border-r border-slate-200 shadow-sm">
-      <div className="p-6 border-b border-slate-200">
-        <h1 className="text-2xl font-bold text-slate-800 mb-2">PDF Processor</h1>
-        <p className="text-sm text-slate-600">Sequential document analysis</p>
+      <div className="p-6 border-b border-slate-200 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800 mb-2">PDF Processor</h1>
+          <p className="text-sm text-slate-600">Sequential document analysis</p>
+        </div>
+        <WorkspaceSwitcher />
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="h-[calc(100%-120px)]">
-        <TabsList className="grid w-full grid-cols-3 m-4 mb-0">
+        <TabsList className="grid w-full grid-cols-4 m-4 mb-0">
           <TabsTrigger value="pdfs" className="flex items-center gap-2">
             <FileText className="w-4 h-4" />
             PDFs
@@ -32,6 +40,10 @@ const LeftPane = ({ selectedPdf, setSelectedPdf, uploadedFiles, setUploadedFiles
             <MessageCircle className="w-4 h-4" />
             Chat
           </TabsTrigger>
+          <TabsTrigger value="search" className="flex items-center gap-2">
+            <Search className="w-4 h-4" />
+            Search
+          </TabsTrigger>
           <TabsTrigger value="viewer" className="flex items-center gap-2">
             <Eye className="w-4 h-4" />
             Viewer
@@ -48,11 +60,30 @@ const LeftPane = ({ selectedPdf, setSelectedPdf, uploadedFiles, setUploadedFiles
         </TabsContent>
         
         <TabsContent value="chat" className="h-full m-0 overflow-y-auto">
-          <ChatTab uploadedFiles={uploadedFiles} />
+          <ChatTab
+            uploadedFiles={uploadedFiles}
+            onOpenDocument={(filename) => {
+              setSelectedPdf(filename);
+              setActiveTab('viewer');
+            }}
+          />
+        </TabsContent>
+        
+        <TabsContent value="search" className="h-full m-0 overflow-y-auto">
+          <SearchTab
+            onOpenHit={(filename, hit) => {
+              setSelectedPdf(filename);
+              setHighlight({ filename, start: hit.start, end: hit.end, text: hit.text, page: hit.page });
+              setActiveTab('viewer');
+            }}
+          />
         </TabsContent>
         
         <TabsContent value="viewer" className="h-full m-0 overflow-y-auto">
-          <PdfViewerTab selectedPdf={selectedPdf} />
+          <PdfViewerTab
+            selectedPdf={selectedPdf}
+            highlight={highlight?.filename === selectedPdf ? highlight : null}
+          />
         </TabsContent>
       </Tabs>
     </div>
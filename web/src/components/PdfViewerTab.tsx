@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,16 +6,27 @@ import { FileText, ZoomIn, ZoomOut, Download, Search, RotateCw, ChevronLeft, Che
 import { Input } from "@/components/ui/input";
 import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
 import 'react-pdf/dist/esm/Page/TextLayer.css';
-import { getApiBaseUrl } from "@/lib/utils";
+import { getApiBaseUrl, isPdfDocument } from "@/lib/utils";
 
 // Configure PDF.js worker - use local worker file
 pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.js';
 
+// A passage to show when the document opens, e.g. a search hit
+export interface ViewerHighlight {
+  start: number; // Character offsets into the extracted text
+  end: number;
+  text: string;
+  page: number | null;
+}
+
 interface PdfViewerTabProps {
   selectedPdf: string | null;
+  highlight?: ViewerHighlight | null;
 }
 
-const PdfViewerTab = ({ selectedPdf }: PdfViewerTabProps) => {
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const PdfViewerTab = ({ selectedPdf, highlight }: PdfViewerTabProps) => {
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState<number>(1);
   const [scale, setScale] = useState<number>(1.0);
@@ -25,7 +36,65 @@ const PdfViewerTab = ({ selectedPdf }: PdfViewerTabProps) => {
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  const [extractedText, setExtractedText] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLElement>(null);
+
   const API_BASE_URL = getApiBaseUrl();
+  const isPdf = selectedPdf ? isPdfDocument(selectedPdf) : true;
+
+  // Other document formats are shown as their extracted text
+  useEffect(() => {
+    if (!selectedPdf || isPdf) return;
+    let cancelled = false;
+    setExtractedText(null);
+    setError(null);
+    setLoading(true);
+    fetch(`${API_BASE_URL}/files/${encodeURIComponent(selectedPdf)}/text`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load document text');
+        if (!cancelled) setExtractedText(data.text);
+      })
+      .catch((fetchError: Error) => {
+        if (!cancelled) setError(`${fetchError.message}. The document may still be processing.`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPdf, isPdf, API_BASE_URL]);
+
+  // Show the highlighted passage: its page, and its words marked by the search box
+  useEffect(() => {
+    if (highlight) setSearchText(highlight.text);
+  }, [highlight]);
+
+  useEffect(() => {
+    if (highlight?.page && highlight.page <= numPages) {
+      setPageNumber(highlight.page);
+      setPageInput(highlight.page.toString());
+    }
+  }, [highlight, numPages]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [extractedText, highlight]);
+
+  // Marks the occurrences of the search text in the text layer of the page
+  const renderTextItem = useCallback(({ str }: { str: string }) => {
+    const needle = searchText.trim();
+    if (!needle) return escapeHtml(str);
+    const pattern = new RegExp(needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'), 'gi');
+    let html = '';
+    let position = 0;
+    for (const match of str.matchAll(pattern)) {
+      html += escapeHtml(str.slice(position, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+      position = match.index! + match[0].length;
+    }
+    return html + escapeHtml(str.slice(position));
+  }, [searchText]);
 
   const onDocumentLoadSuccess = useCallback(({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
@@ -126,6 +195,49 @@ const PdfViewerTab = ({ selectedPdf }: PdfViewerTabProps) => {
     );
   }
 
+  if (!isPdf) {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="p-4 border-b border-slate-200 bg-white">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-slate-800 truncate">{selectedPdf}</h3>
+            <Button variant="outline" size="sm" onClick={downloadPdf}>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        </div>
+        <div className="flex-1 bg-slate-100 overflow-auto p-4">
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+          ) : error ? (
+            <Card className="p-8 bg-white shadow-lg">
+              <div className="text-center">
+                <AlertCircle className="w-16 h-16 text-red-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-red-600 mb-2">Error Loading Document</h3>
+                <p className="text-red-500">{error}</p>
+              </div>
+            </Card>
+          ) : (
+            <Card className="p-6 bg-white shadow-lg max-w-3xl mx-auto">
+              <pre className="whitespace-pre-wrap font-sans text-sm text-slate-800">
+                {extractedText && highlight && highlight.end <= extractedText.length ? (
+                  <>
+                    {extractedText.slice(0, highlight.start)}
+                    <mark ref={highlightRef} className="bg-yellow-200">{extractedText.slice(highlight.start, highlight.end)}</mark>
+                    {extractedText.slice(highlight.end)}
+                  </>
+                ) : extractedText}
+              </pre>
+            </Card>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   const pdfUrl = `${API_BASE_URL}/files/${encodeURIComponent(selectedPdf)}`;
   
   // Debug logging
@@ -241,6 +353,7 @@ const PdfViewerTab = ({ selectedPdf }: PdfViewerTabProps) => {
                   rotate={rotation}
                   renderTextLayer={true}
                   renderAnnotationLayer={true}
+                  customTextRenderer={renderTextItem}
                   className="shadow-lg"
                 />
               </Document>
@@ -2,21 +2,32 @@ import React, { useCallback, useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Upload, FileText, Search, MoreVertical, Eye, Trash2, Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Upload, FileText, Search, MoreVertical, Eye, Trash2, Loader2, RefreshCw, AlertTriangle, Copy, FolderInput } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { getApiBaseUrl } from "@/lib/utils";
+import { ToastAction } from "@/components/ui/toast";
+import ImportArchiveDialog from "./ImportArchiveDialog";
+import { getApiBaseUrl, isPdfDocument, isSupportedDocument, SUPPORTED_DOCUMENT_EXTENSIONS } from "@/lib/utils";
 
 interface UploadedFile {
   filename: string;
   size: number;
   uploadedAt: string;
   modifiedAt: string;
+  contentHash?: string;
+  duplicates?: string[]; // Other uploads with the same content
+}
+
+interface DuplicateGroup {
+  contentHash: string;
+  filenames: string[];
 }
 
 interface FilesResponse {
   files: UploadedFile[];
   total: number;
+  duplicateGroups?: DuplicateGroup[];
 }
 
 interface PdfsTabProps {
@@ -32,8 +43,10 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
   const { toast } = useToast();
   const [uploading, setUploading] = useState(false);
   const [serverFiles, setServerFiles] = useState<UploadedFile[]>([]);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
   const [loading, setLoading] = useState(false);
   const [deletingAll, setDeletingAll] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   // Fetch files from server on component mount
   useEffect(() => {
@@ -52,6 +65,7 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
       if (response.ok) {
         const data: FilesResponse = await response.json();
         setServerFiles(data.files);
+        setDuplicateGroups(data.duplicateGroups || []);
       } else {
         throw new Error('Failed to fetch files');
       }
@@ -67,22 +81,23 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
     }
   };
 
-  const uploadFiles = async (files: FileList) => {
-    const pdfFiles = Array.from(files).filter(file => file.type === 'application/pdf');
+  // force uploads files even when their content was uploaded before
+  const uploadFiles = async (files: FileList | File[], force = false) => {
+    const documentFiles = Array.from(files).filter(file => isSupportedDocument(file.name));
     
-    if (pdfFiles.length === 0) {
+    if (documentFiles.length === 0) {
       toast({
         title: "No valid files",
-        description: "Please select PDF files to upload.",
+        description: "Please select PDF, Word, HTML, Markdown or text files to upload.",
         variant: "destructive"
       });
       return;
     }
 
-    if (pdfFiles.length !== files.length) {
+    if (documentFiles.length !== files.length) {
       toast({
         title: "Invalid files detected",
-        description: "Only PDF files are allowed.",
+        description: `Only ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')} files are allowed.`,
         variant: "destructive"
       });
     }
@@ -92,11 +107,11 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
     try {
       // Upload all files at once
       const formData = new FormData();
-      pdfFiles.forEach(file => {
+      documentFiles.forEach(file => {
         formData.append('pdf', file);
       });
 
-      const response = await fetch(`${API_BASE_URL}/upload`, {
+      const response = await fetch(`${API_BASE_URL}/upload${force ? '?force=true' : ''}`, {
         method: 'POST',
         body: formData,
       });
@@ -108,9 +123,19 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
 
       const result = await response.json();
       
+      // Skipped duplicates can be uploaded again as separate documents
+      const duplicateNames = new Set<string>(
+        (result.files || []).filter((file: { duplicate?: boolean }) => file.duplicate).map((file: { uploadedAs: string }) => file.uploadedAs)
+      );
+      const duplicateFiles = documentFiles.filter(file => duplicateNames.has(file.name));
       toast({
-        title: "Files uploaded successfully",
-        description: result.message
+        title: result.duplicates > 0 ? "Some files were already uploaded" : "Files uploaded successfully",
+        description: result.message,
+        action: duplicateFiles.length > 0 ? (
+          <ToastAction altText="Upload the duplicates anyway" onClick={() => uploadFiles(duplicateFiles, true)}>
+            Upload anyway
+          </ToastAction>
+        ) : undefined
       });
 
       // Refresh the server files list to show newly uploaded files
@@ -159,7 +184,7 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
 
       toast({
         title: "File deleted",
-        description: "PDF has been removed from the server.",
+        description: "Document has been removed from the server.",
       });
 
       // Refresh the file list
@@ -186,7 +211,7 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
     if (serverFiles.length === 0) return;
     
     const confirmed = window.confirm(
-      `Are you sure you want to delete all ${serverFiles.length} PDF files? This will also clear all associated tasks. This action cannot be undone.`
+      `Are you sure you want to delete all ${serverFiles.length} documents? This will also clear all associated tasks. This action cannot be undone.`
     );
     
     if (!confirmed) return;
@@ -243,12 +268,12 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
           <Upload className="w-8 h-8 text-slate-400 mx-auto mb-2" />
         )}
         <p className="text-sm text-slate-600 mb-2">
-          {uploading ? 'Uploading files...' : 'Drag & drop PDFs here, or click to browse'}
+          {uploading ? 'Uploading files...' : 'Drag & drop PDFs or Word, HTML, Markdown and text files here, or click to browse'}
         </p>
         <input
           type="file"
           multiple
-          accept=".pdf"
+          accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
           onChange={handleFileUpload}
           className="hidden"
           id="file-upload"
@@ -266,7 +291,7 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
         <div className="relative mb-4">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
           <Input
-            placeholder="Search PDFs..."
+            placeholder="Search documents..."
             className="pl-10"
           />
         </div>
@@ -276,6 +301,11 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-sm font-medium text-slate-700">
           Uploaded Documents ({serverFiles.length})
+          {duplicateGroups.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-amber-600">
+              {duplicateGroups.length} duplicate group{duplicateGroups.length === 1 ? '' : 's'}
+            </span>
+          )}
         </h3>
         <div className="flex space-x-2">
           <Button 
@@ -287,6 +317,15 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
             <RefreshCw className={`w-4 h-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setImportOpen(true)}
+            disabled={deletingAll}
+          >
+            <FolderInput className="w-4 h-4 mr-1" />
+            Import Archive
+          </Button>
           {serverFiles.length > 0 && (
             <Button 
               variant="destructive" 
@@ -317,11 +356,23 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
           >
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3 flex-1 min-w-0">
-                <FileText className="w-5 h-5 text-red-500 flex-shrink-0" />
+                <FileText className={`w-5 h-5 flex-shrink-0 ${isPdfDocument(file.filename) ? 'text-red-500' : 'text-blue-500'}`} />
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-slate-900 truncate">
-                    {file.filename}
-                  </p>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <p className="text-sm font-medium text-slate-900 truncate">
+                      {file.filename}
+                    </p>
+                    {file.duplicates && file.duplicates.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="text-amber-700 border-amber-300 bg-amber-50 flex-shrink-0"
+                        title={`Same content as: ${file.duplicates.join(', ')}`}
+                      >
+                        <Copy className="w-3 h-3 mr-1" />
+                        Duplicate ×{file.duplicates.length + 1}
+                      </Badge>
+                    )}
+                  </div>
                   <div className="flex items-center space-x-2 text-xs text-slate-500">
                     <span>{formatFileSize(file.size)}</span>
                     <span>•</span>
@@ -355,7 +406,7 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
             <FileText className="w-12 h-12 text-slate-300 mx-auto mb-4" />
-            <p className="text-slate-500">No PDFs uploaded yet</p>
+            <p className="text-slate-500">No documents uploaded yet</p>
             <p className="text-sm text-slate-400">Upload your first document to get started</p>
           </div>
         </div>
@@ -366,6 +417,8 @@ const PdfsTab = ({ uploadedFiles, setUploadedFiles, selectedPdf, setSelectedPdf
           <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
         </div>
       )}
+
+      <ImportArchiveDialog open={importOpen} onOpenChange={setImportOpen} onImported={fetchServerFiles} />
     </div>
   );
 };
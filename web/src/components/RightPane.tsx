@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Clock, FileText, BarChart2, Sparkles } from 'lucide-react';
+import { Clock, FileText, BarChart2, Sparkles, Coins } from 'lucide-react';
 import TimelineTab from './TimelineTab';
 import SummarizationTab from './SummarizationTab';
 import AnalysisTab from './AnalysisTab';
 import AgentTab from './AgentTab';
+import UsageTab from './UsageTab';
 
 interface RightPaneProps {
   selectedPdf: string | null;
@@ -42,6 +43,10 @@ const RightPane = ({ selectedPdf, uploadedFiles, setSelectedPdf, switchToViewerT
             <FileText className="w-4 h-4" />
             Summaries
           </TabsTrigger>
+          <TabsTrigger value="usage" className="flex items-center gap-2">
+            <Coins className="w-4 h-4" />
+            Usage
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="timeline" className="h-full m-0 overflow-y-auto">
@@ -59,6 +64,10 @@ const RightPane = ({ selectedPdf, uploadedFiles, setSelectedPdf, switchToViewerT
         <TabsContent value="summaries" className="h-full m-0 overflow-y-auto">
           <SummarizationTab uploadedFiles={uploadedFiles} setSelectedPdf={setSelectedPdf} switchToViewerTab={switchToViewerTab} />
         </TabsContent>
+        
+        <TabsContent value="usage" className="h-full m-0 overflow-y-auto">
+          <UsageTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
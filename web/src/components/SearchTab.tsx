@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Search, Loader2, AlertCircle } from 'lucide-react';
+import { getApiBaseUrl } from "@/lib/utils";
+
+export interface TextHit {
+  start: number;
+  end: number;
+  text: string;
+  page: number | null;
+  snippet: string;
+  highlights: [number, number][];
+}
+
+interface TextSearchResult {
+  taskId: string;
+  filename: string;
+  hitCount: number;
+  hits: TextHit[];
+}
+
+interface SearchResponse {
+  total: number;
+  results: TextSearchResult[];
+  index: { documents: number; queued: number };
+}
+
+interface SearchTabProps {
+  onOpenHit: (filename: string, hit: TextHit) => void;
+}
+
+const API_BASE_URL = getApiBaseUrl();
+
+// Snippet with the matched words marked
+const renderSnippet = (hit: TextHit) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  hit.highlights.forEach(([start, end], index) => {
+    if (start < position) return;
+    parts.push(hit.snippet.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 rounded px-0.5">{hit.snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(hit.snippet.slice(position));
+  return parts;
+};
+
+const SearchTab = ({ onOpenHit }: SearchTabProps) => {
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE_URL}/search/text?q=${encodeURIComponent(query)}&hits=10`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Search failed');
+      setResponse(data);
+    } catch (searchError) {
+      setResponse(null);
+      setError(searchError instanceof Error ? searchError.message : 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <form onSubmit={search} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <Input
+            placeholder={'Search all documents, e.g. "data dependent" OR transitory'}
+            className="pl-9"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={loading || !query.trim()}>
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
+        </Button>
+      </form>
+      <p className="text-xs text-slate-500">
+        All words must occur. Use "quotes" for exact phrases, OR for alternatives, -word to exclude and parentheses to group.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {response && (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">
+            {response.total} {response.total === 1 ? 'document' : 'documents'} found
+            {response.index.queued > 0 && ` (${response.index.queued} still being indexed)`}
+          </p>
+          {response.results.map(result => (
+            <Card key={result.taskId} className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <button
+                  className="flex items-center gap-2 font-medium text-slate-800 hover:text-blue-600 truncate"
+                  onClick={() => onOpenHit(result.filename, result.hits[0])}
+                >
+                  <FileText className="w-4 h-4 shrink-0" />
+                  <span className="truncate">{result.filename}</span>
+                </button>
+                <Badge variant="secondary">{result.hitCount} {result.hitCount === 1 ? 'hit' : 'hits'}</Badge>
+              </div>
+              <div className="space-y-1">
+                {result.hits.map(hit => (
+                  <button
+                    key={hit.start}
+                    className="block w-full text-left text-sm text-slate-600 rounded px-2 py-1 hover:bg-slate-50"
+                    onClick={() => onOpenHit(result.filename, hit)}
+                  >
+                    {hit.page && <span className="text-xs text-slate-400 mr-2">p.{hit.page}</span>}
+                    …{renderSnippet(hit)}…
+                  </button>
+                ))}
+                {result.hitCount > result.hits.length && (
+                  <p className="text-xs text-slate-400 px-2">and {result.hitCount - result.hits.length} more</p>
+                )}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchTab;
@@ -7,7 +7,7 @@ import { Copy, Download, Eye, Search, FileText, RefreshCw, Clock, BookOpen, File
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
-import { getApiBaseUrl } from "@/lib/utils";
+import { getApiBaseUrl, isSupportedDocument } from "@/lib/utils";
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Components } from 'react-markdown';
@@ -361,7 +361,7 @@ const SummarizationTab: React.FC<SummarizationTabProps> = ({
       
       // Try direct timestamp match first
       let matchingFile = files.find((file: any) => 
-        file.filename.startsWith(timestamp) && file.filename.endsWith('.pdf')
+        file.filename.startsWith(timestamp) && isSupportedDocument(file.filename)
       );
 
       // If no direct match, try to find via task status data
@@ -385,7 +385,7 @@ const SummarizationTab: React.FC<SummarizationTabProps> = ({
               // Try to find file by the task's original filename
               if (matchingTask.filename) {
                 matchingFile = files.find((file: any) => 
-                  file.filename === matchingTask.filename && file.filename.endsWith('.pdf')
+                  file.filename === matchingTask.filename && isSupportedDocument(file.filename)
                 );
                 console.log('🎯 File match by filename:', matchingFile?.filename || 'NO MATCH');
               }
@@ -400,7 +400,7 @@ const SummarizationTab: React.FC<SummarizationTabProps> = ({
                   
                   // Try to find file with inferred timestamp
                   matchingFile = files.find((file: any) => 
-                    file.filename.startsWith(inferredTimestampMs) && file.filename.endsWith('.pdf')
+                    file.filename.startsWith(inferredTimestampMs) && isSupportedDocument(file.filename)
                   );
                   console.log('🎯 File match by inferredTimestamp:', matchingFile?.filename || 'NO MATCH');
                 }
@@ -410,7 +410,7 @@ const SummarizationTab: React.FC<SummarizationTabProps> = ({
               if (!matchingFile && matchingTask.TimeStamp) {
                 console.log('🔍 Trying task TimeStamp:', matchingTask.TimeStamp);
                 matchingFile = files.find((file: any) => 
-                  file.filename.startsWith(matchingTask.TimeStamp) && file.filename.endsWith('.pdf')
+                  file.filename.startsWith(matchingTask.TimeStamp) && isSupportedDocument(file.filename)
                 );
                 console.log('🎯 File match by TimeStamp:', matchingFile?.filename || 'NO MATCH');
               }
@@ -433,7 +433,7 @@ const SummarizationTab: React.FC<SummarizationTabProps> = ({
         let closestDiff = Infinity;
         
         files.forEach((file: any) => {
-          if (file.filename.endsWith('.pdf')) {
+          if (isSupportedDocument(file.filename)) {
             const match = file.filename.match(/^(\d+)-/);
             if (match) {
               const fileTimestamp = parseInt(match[1]);
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, Clock, CheckCircle2, AlertCircle, Eye, Loader2, RefreshCw, GripVertical, MoreVertical } from 'lucide-react';
+import { FileText, Clock, CheckCircle2, AlertCircle, Eye, Loader2, RefreshCw, GripVertical, MoreVertical, RotateCcw, Ban, Zap } from 'lucide-react';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   DndContext,
@@ -24,6 +24,7 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { getApiBaseUrl } from "@/lib/utils";
+import { useServerEvents } from "@/hooks/use-server-events";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -32,7 +33,7 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 interface PdfTask {
   id: string;
   filename: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
@@ -42,6 +43,10 @@ interface PdfTask {
   pageCount?: number;
   fileSize?: number;
   displayOrder?: number;
+  attempts?: number; // Processing attempts, including retries of transient failures
+  nextRetryAt?: string; // Set while a transient failure waits for its retry
+  priority?: 'urgent' | 'normal' | 'backfill';
+  stage?: 'extracting' | 'awaiting-summary' | 'summarizing'; // Pipeline stage while processing
   result?: {
     summary: string;
     extractedTextPath: string;
@@ -79,6 +84,8 @@ interface SortableTaskItemProps {
   canShowMenu: boolean;
   onChangeTimestamp: (task: PdfTask) => void;
   onRegenerate: (task: PdfTask) => void;
+  onCancel: (task: PdfTask) => void;
+  onMakeUrgent: (task: PdfTask) => void;
 }
 
 const SortableTaskItem = ({ 
@@ -92,7 +99,9 @@ const SortableTaskItem = ({
   switchToViewerTab,
   canShowMenu,
   onChangeTimestamp,
-  onRegenerate
+  onRegenerate,
+  onCancel,
+  onMakeUrgent
 }: SortableTaskItemProps) => {
   const {
     attributes,
@@ -179,6 +188,7 @@ const SortableTaskItem = ({
           task.status === 'completed' ? 'bg-green-500' :
           task.status === 'processing' ? 'bg-blue-500' :
           task.status === 'failed' ? 'bg-red-500' :
+          task.status === 'cancelled' ? 'bg-slate-400' :
           'bg-yellow-500'
         }`}></div>
       </div>
@@ -206,10 +216,17 @@ const SortableTaskItem = ({
               </p>
             </div>
           </div>
-          <Badge variant="outline" className={getStatusColor(task.status)}>
-            {getStatusIcon(task.status)}
-            <span className="ml-1 capitalize">{task.status}</span>
-          </Badge>
+          <div className="flex items-center gap-2">
+            {task.priority && task.priority !== 'normal' && (
+              <Badge variant="outline" className={task.priority === 'urgent' ? 'bg-orange-100 text-orange-800 border-orange-200' : 'bg-slate-100 text-slate-600 border-slate-200'}>
+                <span className="capitalize">{task.priority}</span>
+              </Badge>
+            )}
+            <Badge variant="outline" className={getStatusColor(task.status)}>
+              {getStatusIcon(task.status)}
+              <span className="ml-1 capitalize">{task.status}</span>
+            </Badge>
+          </div>
         </div>
         
         {/* Processing Events for non-completed tasks */}
@@ -239,6 +256,14 @@ const SortableTaskItem = ({
                 <span className="font-medium">Document Date:</span> {formatDate(task.result.metadata.inferredTimestamp)}
               </div>
             )}
+            {typeof task.result?.metadata?.summaryCoverage === 'number' && (
+              <div
+                className={`text-sm p-2 rounded ${task.result.metadata.summaryCoverage < 100 ? 'text-amber-700 bg-amber-50' : 'text-slate-600 bg-slate-50'}`}
+                title={`Summary based on ${task.result.metadata.summaryChunkCount} of ${task.result.metadata.summaryTotalChunks} text chunks`}
+              >
+                <span className="font-medium">Read:</span> {task.result.metadata.summaryCoverage}%
+              </div>
+            )}
           </div>
         )}
 
@@ -283,6 +308,18 @@ const SortableTaskItem = ({
             <Eye className="w-3 h-3 mr-1" />
             View PDF
           </Button>
+          {(task.status === 'pending' || task.status === 'processing') && (
+            <Button variant="outline" size="sm" onClick={() => onCancel(task)}>
+              <Ban className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          )}
+          {(task.status === 'pending' || task.status === 'processing') && task.priority !== 'urgent' && (
+            <Button variant="outline" size="sm" onClick={() => onMakeUrgent(task)} title="Process this document before others">
+              <Zap className="w-3 h-3 mr-1" />
+              Make Urgent
+            </Button>
+          )}
           {/* Action menu, only show if canShowMenu is true */}
           {canShowMenu && (
             <DropdownMenu>
@@ -293,9 +330,11 @@ const SortableTaskItem = ({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => onChangeTimestamp(task)}>
-                  Change Timestamp
-                </DropdownMenuItem>
+                {task.status === 'completed' && (
+                  <DropdownMenuItem onClick={() => onChangeTimestamp(task)}>
+                    Change Timestamp
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={() => onRegenerate(task)}>
                   Regenerate Summary
                 </DropdownMenuItem>
@@ -320,6 +359,8 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
   const [selectedTask, setSelectedTask] = useState<PdfTask | null>(null);
   const [newTimestamp, setNewTimestamp] = useState('');
   const [actionLoading, setActionLoading] = useState(false);
+  const [showFailedOnly, setShowFailedOnly] = useState(false);
+  const [retryingFailed, setRetryingFailed] = useState(false);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -328,20 +369,15 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
     })
   );
 
-  // Fetch all tasks on component mount and auto-refresh every 5 seconds
+  // Fetch all tasks on component mount
   useEffect(() => {
-    let isMounted = true;
     fetchTasks(false); // Initial load without loading state
     fetchAutoReorderStatus(); // Check if manual reorder is allowed
-    const interval = setInterval(() => {
-      if (isMounted) fetchTasks(false);
-    }, 5000); // Auto-refresh every 5 seconds silently
-    return () => {
-      isMounted = false;
-      clearInterval(interval);
-    };
   }, []);
 
+  // Refresh silently when the server reports task state changes
+  useServerEvents(['task'], () => fetchTasks(false));
+
   const fetchTasks = async (showLoading = true) => {
     try {
       if (showLoading) {
@@ -460,6 +496,8 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
         return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />;
       case 'failed':
         return <AlertCircle className="w-4 h-4 text-red-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-slate-500" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-yellow-500" />;
       default:
@@ -475,6 +513,8 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
         return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'failed':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'cancelled':
+        return 'bg-slate-200 text-slate-700 border-slate-300';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       default:
@@ -505,10 +545,21 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
       });
     }
     
-    if (task.status === 'processing') {
+    if (task.status === 'processing' && task.stage === 'awaiting-summary') {
+      events.push({
+        icon: <CheckCircle2 className="w-3 h-3 text-green-500" />,
+        text: 'Text extracted',
+        completed: true
+      });
+      events.push({
+        icon: <Clock className="w-3 h-3 text-yellow-500" />,
+        text: 'Waiting for summarization',
+        completed: false
+      });
+    } else if (task.status === 'processing') {
       events.push({
         icon: <Loader2 className="w-3 h-3 text-blue-500 animate-spin" />,
-        text: 'Analyzing content...',
+        text: task.stage === 'extracting' ? 'Extracting text...' : 'Analyzing content...',
         completed: false
       });
     }
@@ -532,12 +583,28 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
     if (task.status === 'failed') {
       events.push({
         icon: <AlertCircle className="w-3 h-3 text-red-500" />,
-        text: task.error || 'Processing failed',
+        text: (task.attempts || 0) > 1
+          ? `Failed after ${task.attempts} attempts: ${task.error || 'Processing failed'}`
+          : task.error || 'Processing failed',
         completed: false
       });
     }
     
-    if (task.status === 'pending') {
+    if (task.status === 'cancelled') {
+      events.push({
+        icon: <Ban className="w-3 h-3 text-slate-500" />,
+        text: 'Cancelled',
+        completed: false
+      });
+    }
+    
+    if (task.status === 'pending' && task.nextRetryAt) {
+      events.push({
+        icon: <RotateCcw className="w-3 h-3 text-yellow-500" />,
+        text: `Attempt ${task.attempts} failed (${task.error}), retrying at ${formatDate(task.nextRetryAt)}`,
+        completed: false
+      });
+    } else if (task.status === 'pending') {
       events.push({
         icon: <Clock className="w-3 h-3 text-yellow-500" />,
         text: 'Waiting to be processed',
@@ -613,6 +680,71 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
     }
   };
 
+  const cancelTask = async (task: PdfTask) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/tasks/${task.id}/cancel`, {
+        method: 'POST'
+      });
+      
+      if (response.ok) {
+        fetchTasks(false);
+      } else {
+        const error = await response.json();
+        alert(`Failed to cancel: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error cancelling task:', error);
+      alert('Failed to cancel task');
+    }
+  };
+
+  const makeTaskUrgent = async (task: PdfTask) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/tasks/${task.id}/priority`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priority: 'urgent' })
+      });
+      
+      if (response.ok) {
+        fetchTasks(false);
+      } else {
+        const error = await response.json();
+        alert(`Failed to change priority: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error changing task priority:', error);
+      alert('Failed to change priority');
+    }
+  };
+
+  // Re-queue every failed task, e.g. after a provider outage
+  const retryFailedTasks = async () => {
+    try {
+      setRetryingFailed(true);
+      const response = await fetch(`${API_BASE_URL}/dead-letter/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      
+      if (response.ok) {
+        setShowFailedOnly(false);
+        fetchTasks(false);
+      } else {
+        const error = await response.json();
+        alert(`Failed to retry tasks: ${error.error}`);
+      }
+    } catch (error) {
+      console.error('Error retrying failed tasks:', error);
+      alert('Failed to retry tasks');
+    } finally {
+      setRetryingFailed(false);
+    }
+  };
+
+  const failedCount = tasks.filter(task => task.status === 'failed').length;
+  const visibleTasks = showFailedOnly && failedCount > 0 ? tasks.filter(task => task.status === 'failed') : tasks;
 
   // Show empty state when there are no tasks (regardless of loading state from auto-polling)
   if (tasks.length === 0) {
@@ -636,15 +768,38 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
             Track the processing status of your uploaded documents. Drag completed tasks to reorder them.
           </p>
         </div>
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={() => fetchTasks(true)}
-          disabled={loading || reordering}
-        >
-          <RefreshCw className={`w-4 h-4 mr-1 ${loading || reordering ? 'animate-spin' : ''}`} />
-          {reordering ? 'Reordering...' : 'Refresh'}
-        </Button>
+        <div className="flex space-x-2">
+          {failedCount > 0 && (
+            <>
+              <Button
+                variant={showFailedOnly ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setShowFailedOnly(!showFailedOnly)}
+              >
+                <AlertCircle className="w-4 h-4 mr-1" />
+                Failed ({failedCount})
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={retryFailedTasks}
+                disabled={retryingFailed}
+              >
+                <RotateCcw className={`w-4 h-4 mr-1 ${retryingFailed ? 'animate-spin' : ''}`} />
+                Retry Failed
+              </Button>
+            </>
+          )}
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={() => fetchTasks(true)}
+            disabled={loading || reordering}
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${loading || reordering ? 'animate-spin' : ''}`} />
+            {reordering ? 'Reordering...' : 'Refresh'}
+          </Button>
+        </div>
       </div>
 
       <ScrollArea className="h-[calc(100%-120px)]">
@@ -660,14 +815,14 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
             onDragEnd={handleDragEnd}
           >
             <SortableContext 
-              items={tasks.map(task => task.id)}
+              items={visibleTasks.map(task => task.id)}
               strategy={verticalListSortingStrategy}
             >
               <div className="space-y-6">
-                {tasks.map((task) => {
+                {visibleTasks.map((task) => {
                   const isSelected = selectedPdf === task.filename;
-                  // Only show menu if final reordering is finished and task is completed
-                  const canShowMenu = finalReorderingFinished && task.status === 'completed';
+                  // Only show menu if final reordering is finished and task is completed (or cancelled, to regenerate it)
+                  const canShowMenu = finalReorderingFinished && (task.status === 'completed' || task.status === 'cancelled');
                   return (
                     <SortableTaskItem
                       key={task.id}
@@ -682,6 +837,8 @@ const TimelineTab = ({ uploadedFiles, selectedPdf, setSelectedPdf, switchToViewe
                       canShowMenu={canShowMenu}
                       onChangeTimestamp={onChangeTimestamp}
                       onRegenerate={onRegenerate}
+                      onCancel={cancelTask}
+                      onMakeUrgent={makeTaskUrgent}
                     />
                   );
                 })}
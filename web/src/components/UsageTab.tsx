@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { getApiBaseUrl } from "@/lib/utils";
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+interface UsageSummary {
+  currency: string;
+  total: UsageTotals;
+  pdf: UsageTotals;
+  agents: UsageTotals;
+  chat: UsageTotals;
+}
+
+interface AgentRunUsage {
+  queueKey: string;
+  name: string;
+  type: string;
+  status: string;
+  createdAt: string;
+  taskCount: number;
+  usage: UsageTotals;
+}
+
+const API_BASE_URL = getApiBaseUrl();
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const UsageTab = () => {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [runs, setRuns] = useState<AgentRunUsage[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    fetchUsage(); // Initial load
+    const interval = setInterval(() => {
+      if (isMounted) fetchUsage(); // Auto-refresh every 10 seconds
+    }, 10000);
+    return () => {
+      isMounted = false;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const fetchUsage = async () => {
+    try {
+      const [summaryResponse, runsResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/usage`),
+        fetch(`${API_BASE_URL}/usage/agents`)
+      ]);
+      if (summaryResponse.ok && runsResponse.ok) {
+        const summaryData = await summaryResponse.json();
+        const runsData = await runsResponse.json();
+        if (!document.hidden) { // Only set state if tab is visible
+          setSummary(summaryData);
+          setRuns(runsData.runs || []);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+    }
+  };
+
+  const renderTotals = (label: string, totals: UsageTotals) => (
+    <Card className="p-4 flex flex-col gap-1">
+      <div className="text-xs font-medium text-slate-500 uppercase tracking-wide">{label}</div>
+      <div className="text-2xl font-semibold text-slate-900">{formatCost(totals.cost)}</div>
+      <div className="text-xs text-slate-500">
+        {totals.calls} calls • {formatTokens(totals.inputTokens)} in • {formatTokens(totals.outputTokens)} out
+      </div>
+    </Card>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-800 mb-1">Model Usage</h3>
+        <p className="text-sm text-slate-500">Token usage and estimated cost from the configured price table</p>
+      </div>
+
+      {summary && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {renderTotals('Total', summary.total)}
+          {renderTotals('PDF processing', summary.pdf)}
+          {renderTotals('Agent runs', summary.agents)}
+          {renderTotals('Chat', summary.chat)}
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-md font-medium text-slate-800 mb-3">Spend per Agent Run</h4>
+        {runs.length === 0 ? (
+          <div className="text-slate-500">No agent runs yet.</div>
+        ) : (
+          <div className="space-y-2">
+            {runs.map(run => (
+              <Card key={run.queueKey} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-900 truncate">{run.name}</span>
+                    <Badge variant="outline" className="capitalize">{run.type.replace(/_/g, ' ')}</Badge>
+                    <Badge variant="secondary" className="capitalize">{run.status}</Badge>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {new Date(run.createdAt).toLocaleString()} • {run.taskCount} tasks • {run.usage.calls} calls
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    {formatTokens(run.usage.inputTokens)} input • {formatTokens(run.usage.outputTokens)} output
+                    {run.usage.reasoningTokens > 0 && ` (${formatTokens(run.usage.reasoningTokens)} reasoning)`}
+                  </div>
+                </div>
+                <div className="text-lg font-semibold text-slate-900 shrink-0">{formatCost(run.usage.cost)}</div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageTab;
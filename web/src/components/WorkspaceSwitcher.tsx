@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Check, ChevronDown, FolderOpen, Plus } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { getSelectedWorkspaceId, getServerBaseUrl, selectWorkspace } from "@/lib/utils";
+
+interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+const WorkspaceSwitcher = () => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+  const selectedId = getSelectedWorkspaceId();
+
+  useEffect(() => {
+    const fetchWorkspaces = async () => {
+      try {
+        const response = await fetch(`${getServerBaseUrl()}/workspaces`);
+        if (!response.ok) throw new Error('Failed to fetch workspaces');
+        const data: { workspaces: Workspace[]; defaultWorkspaceId: string } = await response.json();
+        setWorkspaces(data.workspaces);
+        // A workspace deleted elsewhere falls back to the default one
+        if (!data.workspaces.some(workspace => workspace.id === selectedId)) {
+          selectWorkspace(data.defaultWorkspaceId);
+        }
+      } catch (error) {
+        console.error('Error fetching workspaces:', error);
+      }
+    };
+    fetchWorkspaces();
+  }, [selectedId]);
+
+  const createWorkspace = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch(`${getServerBaseUrl()}/workspaces`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create workspace');
+      }
+      selectWorkspace(data.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to create workspace',
+        variant: "destructive"
+      });
+      setCreating(false);
+    }
+  };
+
+  const selected = workspaces.find(workspace => workspace.id === selectedId);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[200px]">
+            <FolderOpen className="w-4 h-4 mr-2 shrink-0" />
+            <span className="truncate">{selected?.name || selectedId}</span>
+            <ChevronDown className="w-4 h-4 ml-2 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {workspaces.map(workspace => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => workspace.id !== selectedId && selectWorkspace(workspace.id)}
+            >
+              <Check className={`w-4 h-4 mr-2 ${workspace.id === selectedId ? '' : 'invisible'}`} />
+              {workspace.name}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+            <DialogDescription>
+              Documents, indices, agents, chats and articles of a workspace are kept apart from the others.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Earnings Calls"
+                className="mt-1"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={createWorkspace} disabled={!name.trim() || creating}>
+                {creating ? 'Creating...' : 'Create Workspace'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,64 @@
+import * as React from "react"
+import { getApiBaseUrl } from "@/lib/utils"
+
+// Event types pushed by GET /events
+export type ServerEventType = "task" | "agent-task" | "index"
+
+type Listener = (type: ServerEventType | "open") => void
+
+const EVENT_TYPES: ServerEventType[] = ["task", "agent-task", "index"]
+
+// One EventSource is shared by every subscribed component and closed when the last one unmounts
+let source: EventSource | null = null
+const listeners = new Set<Listener>()
+
+function connect() {
+  source = new EventSource(`${getApiBaseUrl()}/events`)
+  // Also fires after an automatic reconnect, so subscribers can catch up on missed events
+  source.onopen = () => listeners.forEach(listener => listener("open"))
+  EVENT_TYPES.forEach(type => {
+    source!.addEventListener(type, () => listeners.forEach(listener => listener(type)))
+  })
+}
+
+function subscribe(listener: Listener) {
+  listeners.add(listener)
+  if (!source) connect()
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0 && source) {
+      source.close()
+      source = null
+    }
+  }
+}
+
+/**
+ * Calls onChange when the server pushes one of the given event types, and whenever the
+ * connection (re)opens. Bursts of events, e.g. during an archive import, are coalesced
+ * into one call per debounce window.
+ */
+export function useServerEvents(types: ServerEventType[], onChange: () => void, debounceMs = 1000) {
+  const onChangeRef = React.useRef(onChange)
+  onChangeRef.current = onChange
+  const typesKey = types.join(",")
+
+  React.useEffect(() => {
+    const watched = new Set(typesKey.split(","))
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const unsubscribe = subscribe(type => {
+      if (type !== "open" && !watched.has(type)) return
+      if (timer) return
+      timer = setTimeout(() => {
+        timer = null
+        onChangeRef.current()
+      }, debounceMs)
+    })
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [typesKey, debounceMs])
+}
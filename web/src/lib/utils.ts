@@ -5,6 +5,40 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function getApiBaseUrl() {
+export function getServerBaseUrl() {
   return import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
 }
+
+// The workspace picked in the header switcher, kept across reloads
+const WORKSPACE_STORAGE_KEY = 'workspaceId';
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export function getSelectedWorkspaceId() {
+  return localStorage.getItem(WORKSPACE_STORAGE_KEY) || DEFAULT_WORKSPACE_ID;
+}
+
+// Reloads the page, so every tab fetches its data from the new workspace
+export function selectWorkspace(workspaceId: string) {
+  localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+  window.location.reload();
+}
+
+// Base URL of the API routes of the selected workspace
+export function getApiBaseUrl() {
+  const workspaceId = getSelectedWorkspaceId();
+  return workspaceId === DEFAULT_WORKSPACE_ID
+    ? getServerBaseUrl()
+    : `${getServerBaseUrl()}/workspaces/${encodeURIComponent(workspaceId)}`;
+}
+
+// Document formats the API can extract, keep in sync with api/services/extractors
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.html', '.htm', '.xhtml', '.md', '.markdown', '.txt', '.text'];
+
+export function isSupportedDocument(filename: string) {
+  const lower = filename.toLowerCase();
+  return SUPPORTED_DOCUMENT_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+export function isPdfDocument(filename: string) {
+  return filename.toLowerCase().endsWith('.pdf');
+}